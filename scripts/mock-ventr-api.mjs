@@ -0,0 +1,517 @@
+// Mock Ventr API
+// Local stand-in for the routing backend. Serves recorded or synthetic routes in the same
+// shapes as the live API, with switches for latency, errors and malformed payloads.
+//
+//   npm run mock-api -- --latency 800 --error-rate 0.2 --error-status 503
+//
+// Options can also come from MOCK_API_* environment variables (e.g. MOCK_API_LATENCY=800),
+// and be changed while the server runs with POST /__mock/config, e.g. from an end-to-end test:
+//
+//   curl -X POST localhost:8000/__mock/config -d '{"malformedRate": 1, "malformed": "no-line"}'
+
+import http from 'node:http';
+import fs from 'node:fs';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { parseArgs } from 'node:util';
+
+const FIXTURE_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), '..', 'public', 'fixtures', 'routing');
+
+// Same tolerance as the app's fixture provider
+const FIXTURE_MATCH_TOLERANCE_M = 150;
+const WALKING_SPEED_MPS = 1.39;
+// Incidents per km at which a synthetic route scores zero
+const ZERO_SAFETY_INCIDENTS_PER_KM = 33;
+const LINE_POINTS = 24;
+
+const ROUTE_SOURCES = ['auto', 'recorded', 'synthetic'];
+const MALFORMED_KINDS = ['not-json', 'missing-stats', 'bad-coordinates', 'no-line'];
+
+const ERROR_DETAILS = {
+  400: 'Bad request',
+  404: 'No path found between the given points',
+  408: 'Request timed out',
+  422: 'Coordinates are outside the routing graph',
+  429: 'Too many requests',
+  500: 'Internal server error',
+  502: 'Bad gateway',
+  503: 'Service unavailable'
+};
+
+// name → [env var, parser]
+const OPTION_PARSERS = {
+  port: ['MOCK_API_PORT', (value) => parseNumber(value, 1, 65535)],
+  routes: ['MOCK_API_ROUTES', (value) => parseChoice(value, ROUTE_SOURCES)],
+  latency: ['MOCK_API_LATENCY', (value) => parseNumber(value, 0, 120000)],
+  jitter: ['MOCK_API_JITTER', (value) => parseNumber(value, 0, 120000)],
+  errorRate: ['MOCK_API_ERROR_RATE', (value) => parseNumber(value, 0, 1)],
+  errorStatus: ['MOCK_API_ERROR_STATUS', (value) => parseNumber(value, 400, 599)],
+  malformedRate: ['MOCK_API_MALFORMED_RATE', (value) => parseNumber(value, 0, 1)],
+  malformed: ['MOCK_API_MALFORMED', (value) => parseChoice(value, MALFORMED_KINDS)]
+};
+
+const DEFAULT_OPTIONS = {
+  port: 8000,
+  routes: 'auto', // Recorded fixture near the endpoints if there is one, otherwise synthetic
+  latency: 0, // Milliseconds before every response
+  jitter: 0, // Up to this many extra milliseconds, at random
+  errorRate: 0, // Share of requests answered with errorStatus
+  errorStatus: 500,
+  malformedRate: 0, // Share of successful responses corrupted as `malformed`
+  malformed: 'not-json'
+};
+
+function parseNumber(value, min, max) {
+  const number = Number(value);
+  if (!Number.isFinite(number) || number < min || number > max) {
+    throw new Error(`expected a number from ${min} to ${max}, got "${value}"`);
+  }
+  return number;
+}
+
+function parseChoice(value, choices) {
+  if (!choices.includes(value)) {
+    throw new Error(`expected one of ${choices.join(', ')}, got "${value}"`);
+  }
+  return value;
+}
+
+/**
+ * Validate and merge option values over `base`. Unknown names are rejected so typos
+ * in test setup fail loudly.
+ */
+function applyOptions(base, values) {
+  const options = { ...base };
+  for (const [name, value] of Object.entries(values)) {
+    if (value === undefined) continue;
+    if (!OPTION_PARSERS[name]) throw new Error(`Unknown option "${name}"`);
+    try {
+      options[name] = OPTION_PARSERS[name][1](String(value));
+    } catch (error) {
+      throw new Error(`Invalid ${name}: ${error.message}`);
+    }
+  }
+  return options;
+}
+
+function loadStartupOptions() {
+  const fromEnv = Object.fromEntries(
+    Object.entries(OPTION_PARSERS).map(([name, [envVar]]) => [name, process.env[envVar]])
+  );
+  const { values: fromArgs } = parseArgs({
+    options: {
+      port: { type: 'string' },
+      routes: { type: 'string' },
+      latency: { type: 'string' },
+      jitter: { type: 'string' },
+      'error-rate': { type: 'string' },
+      'error-status': { type: 'string' },
+      'malformed-rate': { type: 'string' },
+      malformed: { type: 'string' }
+    }
+  });
+
+  return applyOptions(applyOptions(DEFAULT_OPTIONS, fromEnv), {
+    port: fromArgs.port,
+    routes: fromArgs.routes,
+    latency: fromArgs.latency,
+    jitter: fromArgs.jitter,
+    errorRate: fromArgs['error-rate'],
+    errorStatus: fromArgs['error-status'],
+    malformedRate: fromArgs['malformed-rate'],
+    malformed: fromArgs.malformed
+  });
+}
+
+// Geometry and synthetic routes
+
+function distanceM([lng1, lat1], [lng2, lat2]) {
+  const toRad = (degrees) => (degrees * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLng / 2) ** 2;
+  return 6371000 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+function lineLengthM(coordinates) {
+  let total = 0;
+  for (let i = 1; i < coordinates.length; i++) total += distanceM(coordinates[i - 1], coordinates[i]);
+  return total;
+}
+
+// Evenly spaced points along each corner-to-corner stretch, so lines look like real geometry
+function densify(corners, pointsPerStretch) {
+  const coordinates = [corners[0]];
+  for (let i = 1; i < corners.length; i++) {
+    const [fromLng, fromLat] = corners[i - 1];
+    const [toLng, toLat] = corners[i];
+    for (let step = 1; step <= pointsPerStretch; step++) {
+      const t = step / pointsPerStretch;
+      coordinates.push([
+        Number((fromLng + (toLng - fromLng) * t).toFixed(6)),
+        Number((fromLat + (toLat - fromLat) * t).toFixed(6))
+      ]);
+    }
+  }
+  return coordinates;
+}
+
+/**
+ * A line from start to end that bows out sideways by `detourShare` of the straight distance,
+ * standing in for a route that avoids the direct streets
+ */
+function buildSyntheticLine(start, end, detourShare) {
+  if (detourShare <= 0) return densify([start, end], LINE_POINTS);
+
+  // Offset perpendicular to the direct line, in degrees corrected for latitude
+  const lngScale = Math.cos((start[1] * Math.PI) / 180);
+  const dx = (end[0] - start[0]) * lngScale;
+  const dy = end[1] - start[1];
+  const length = Math.hypot(dx, dy) || 1;
+  const offset = detourShare * length;
+  const [offsetLng, offsetLat] = [(-dy / length) * offset / lngScale, (dx / length) * offset];
+
+  const corners = [
+    start,
+    [start[0] + offsetLng, start[1] + offsetLat],
+    [end[0] + offsetLng, end[1] + offsetLat],
+    end
+  ];
+  return densify(corners, Math.ceil(LINE_POINTS / 3));
+}
+
+// Stable pseudo-random number in [0, 1) for a place, so the same trip gets the same stats
+function placeNoise([lng, lat]) {
+  const value = Math.sin(lat * 12.9898 + lng * 78.233) * 43758.5453;
+  return value - Math.floor(value);
+}
+
+function buildStats(coordinates, incidentsPerKm, shortestDistanceM) {
+  const distance = lineLengthM(coordinates);
+  const incidents = Math.round((distance / 1000) * incidentsPerKm);
+  const round = (value, digits) => Number(value.toFixed(digits));
+  return {
+    total_distance_m: round(distance, 1),
+    total_time_s: Math.round(distance / WALKING_SPEED_MPS),
+    crime_incidents_nearby: incidents,
+    safety_score: round(Math.max(0, 1 - incidentsPerKm / ZERO_SAFETY_INCIDENTS_PER_KM), 3),
+    detour_factor: shortestDistanceM > 0 ? round(distance / shortestDistanceM, 3) : 1
+  };
+}
+
+function toRouteGeoJson(coordinates, algorithm, stats) {
+  return {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates },
+        properties: {
+          algorithm,
+          total_distance_m: stats.total_distance_m,
+          node_count: coordinates.length,
+          calculation_time_ms: 1
+        }
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: coordinates[0] },
+        properties: { type: 'start', name: 'Start Point' }
+      },
+      {
+        type: 'Feature',
+        geometry: { type: 'Point', coordinates: coordinates[coordinates.length - 1] },
+        properties: { type: 'end', name: 'End Point' }
+      }
+    ]
+  };
+}
+
+/**
+ * Shortest and safest routes for any endpoints. A higher crime weight bows the safe route out
+ * further, within the detour limit, and cuts the incidents along it.
+ */
+function buildSyntheticRoutes(start, end, crimeWeight, maxDetourFactor) {
+  const shortestLine = buildSyntheticLine(start, end, 0);
+  const shortestDistance = lineLengthM(shortestLine);
+  const baseIncidentsPerKm = 15 + 20 * placeNoise(start) * placeNoise(end) + 10 * placeNoise(end);
+
+  // The bow adds twice its offset to the length, so the detour limit caps it at (factor - 1) / 2
+  const detourShare = Math.min(0.05 + 0.45 * crimeWeight, (maxDetourFactor - 1) / 2);
+  const safestLine = buildSyntheticLine(start, end, detourShare);
+
+  const shortestStats = buildStats(shortestLine, baseIncidentsPerKm, shortestDistance);
+  const safestStats = buildStats(safestLine, baseIncidentsPerKm * (1 - 0.6 * crimeWeight), shortestDistance);
+  return {
+    shortest_route: toRouteGeoJson(shortestLine, 'shortest_path', shortestStats),
+    shortest_stats: shortestStats,
+    safest_route: toRouteGeoJson(safestLine, 'weighted_astar', safestStats),
+    safest_stats: safestStats
+  };
+}
+
+function compareStats(shortest, safest) {
+  const compare = (field) => ({
+    shortest: shortest[field],
+    safest: safest[field],
+    difference: safest[field] - shortest[field],
+    percent_change: shortest[field] !== 0 ? ((safest[field] - shortest[field]) / shortest[field]) * 100 : null
+  });
+  return Object.fromEntries(
+    ['total_distance_m', 'total_time_s', 'crime_incidents_nearby', 'safety_score'].map((field) => [field, compare(field)])
+  );
+}
+
+// Recorded fixtures
+
+function loadFixtures() {
+  try {
+    const manifest = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, 'index.json'), 'utf8'));
+    return manifest.fixtures.map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')));
+  } catch (error) {
+    console.warn(`⚠️ Could not load routing fixtures from ${FIXTURE_DIR}:`, error.message);
+    return [];
+  }
+}
+
+function findFixture(fixtures, start, end) {
+  let best = null;
+  for (const fixture of fixtures) {
+    const { start: recordedStart, destination: recordedEnd } = fixture.request;
+    const startOffset = distanceM(start, [recordedStart.longitude, recordedStart.latitude]);
+    const endOffset = distanceM(end, [recordedEnd.longitude, recordedEnd.latitude]);
+    if (startOffset > FIXTURE_MATCH_TOLERANCE_M || endOffset > FIXTURE_MATCH_TOLERANCE_M) continue;
+    if (!best || startOffset + endOffset < best.offset) best = { fixture, offset: startOffset + endOffset };
+  }
+  return best?.fixture ?? null;
+}
+
+// Requests
+
+class HttpError extends Error {
+  constructor(status, detail) {
+    super(typeof detail === 'string' ? detail : 'Validation error');
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+// FastAPI-style 422 listing each missing or invalid field
+function readPoint(body, field) {
+  const point = body?.[field];
+  const errors = ['latitude', 'longitude']
+    .filter((key) => typeof point?.[key] !== 'number' || !Number.isFinite(point[key]))
+    .map((key) => ({ loc: ['body', field, key], msg: 'Field required', type: 'missing' }));
+  if (errors.length > 0) throw new HttpError(422, errors);
+  return [point.longitude, point.latitude];
+}
+
+function readWeight(value, fallback) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+/**
+ * Recorded routes when allowed and available, otherwise synthetic ones, in the
+ * calculate-multiple shape. Returns the payload and where it came from.
+ */
+function resolveRoutes(options, fixtures, start, end, crimeWeight, maxDetourFactor) {
+  if (options.routes !== 'synthetic') {
+    const fixture = findFixture(fixtures, start, end);
+    if (fixture) return { payload: fixture.response, source: `recorded "${fixture.name}"` };
+    if (options.routes === 'recorded') {
+      throw new HttpError(404, `No route found: nothing recorded within ${FIXTURE_MATCH_TOLERANCE_M}m of these endpoints`);
+    }
+  }
+
+  const routes = buildSyntheticRoutes(start, end, crimeWeight, maxDetourFactor);
+  return {
+    payload: {
+      success: true,
+      message: 'Routes calculated successfully',
+      ...routes,
+      comparison_stats: compareStats(routes.shortest_stats, routes.safest_stats)
+    },
+    source: 'synthetic'
+  };
+}
+
+function handleRouting(pathname, body, options, fixtures) {
+  const start = readPoint(body, 'start');
+  const end = readPoint(body, 'destination');
+
+  if (pathname === '/api/routing/calculate-multiple') {
+    return resolveRoutes(
+      options,
+      fixtures,
+      start,
+      end,
+      readWeight(body.crime_weight_safest, 0.1),
+      readWeight(body.max_detour_factor, 2)
+    );
+  }
+
+  if (pathname === '/api/routing/shortest') {
+    const { payload, source } = resolveRoutes(options, fixtures, start, end, 0, 2);
+    return {
+      payload: {
+        success: payload.success,
+        message: payload.message,
+        route_geojson: payload.shortest_route,
+        route_stats: payload.shortest_stats,
+        shortest_path_stats: null
+      },
+      source
+    };
+  }
+
+  // /api/routing/calculate: a single route for the given weights
+  const crimeWeight = readWeight(body.crime_weight, 0.1);
+  const { payload, source } = resolveRoutes(options, fixtures, start, end, crimeWeight, readWeight(body.max_detour_factor, 2));
+  const isShortest = body.route_type === 'shortest' || crimeWeight === 0;
+  return {
+    payload: {
+      success: payload.success,
+      message: payload.message,
+      route_geojson: isShortest ? payload.shortest_route : payload.safest_route,
+      route_stats: isShortest ? payload.shortest_stats : payload.safest_stats,
+      shortest_path_stats: payload.shortest_stats
+    },
+    source
+  };
+}
+
+// Break a valid payload in the chosen way. Returns the raw text to send.
+function corruptPayload(payload, kind) {
+  if (kind === 'not-json') {
+    return '<html><body><h1>502 Bad Gateway</h1></body></html>';
+  }
+
+  const copy = structuredClone(payload);
+  const routeKeys = ['route_geojson', 'shortest_route', 'safest_route'].filter((key) => copy[key]);
+  if (kind === 'missing-stats') {
+    ['route_stats', 'shortest_stats', 'safest_stats'].forEach((key) => delete copy[key]);
+  } else if (kind === 'bad-coordinates') {
+    routeKeys.forEach((key) => {
+      const line = copy[key].features.find((feature) => feature.geometry?.type === 'LineString');
+      if (line) line.geometry.coordinates[0] = [999, 999];
+    });
+  } else if (kind === 'no-line') {
+    routeKeys.forEach((key) => {
+      copy[key].features = copy[key].features.filter((feature) => feature.geometry?.type !== 'LineString');
+    });
+  }
+  return JSON.stringify(copy);
+}
+
+const ROUTING_PATHS = ['/api/routing/calculate-multiple', '/api/routing/shortest', '/api/routing/calculate'];
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type'
+};
+
+function send(response, status, body, contentType = 'application/json') {
+  response.writeHead(status, { ...CORS_HEADERS, 'Content-Type': contentType, 'Cache-Control': 'no-store' });
+  response.end(typeof body === 'string' ? body : JSON.stringify(body));
+}
+
+async function readJsonBody(request) {
+  const chunks = [];
+  for await (const chunk of request) chunks.push(chunk);
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) return {};
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new HttpError(400, 'Request body is not valid JSON');
+  }
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function createServer(initialOptions, fixtures) {
+  let options = initialOptions;
+
+  return http.createServer(async (request, response) => {
+    const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+    const startedAt = Date.now();
+    const log = (status, note = '') =>
+      console.log(`📡 ${request.method} ${pathname} → ${status}${note ? ` ${note}` : ''} (${Date.now() - startedAt}ms)`);
+
+    try {
+      if (request.method === 'OPTIONS') {
+        send(response, 204, '');
+        return;
+      }
+
+      if (pathname === '/health' && request.method === 'GET') {
+        send(response, 200, { status: 'ok', mock: true });
+        return;
+      }
+
+      // Inspect or change the switches without restarting
+      if (pathname === '/__mock/config') {
+        if (request.method === 'POST') {
+          const changes = await readJsonBody(request);
+          if (typeof changes !== 'object' || changes === null || Array.isArray(changes)) {
+            throw new HttpError(400, 'Config body must be a JSON object');
+          }
+          delete changes.port; // Fixed once listening
+          try {
+            options = applyOptions(options, changes);
+          } catch (error) {
+            throw new HttpError(400, error.message);
+          }
+          console.log('🔧 Mock options updated:', options);
+        }
+        send(response, 200, options);
+        return;
+      }
+
+      if (!ROUTING_PATHS.includes(pathname)) throw new HttpError(404, 'Not Found');
+      if (request.method !== 'POST') throw new HttpError(405, 'Method Not Allowed');
+
+      const body = await readJsonBody(request);
+      await sleep(options.latency + Math.random() * options.jitter);
+
+      if (Math.random() < options.errorRate) {
+        const status = options.errorStatus;
+        send(response, status, { detail: ERROR_DETAILS[status] ?? `Simulated error ${status}` });
+        log(status, '(simulated error)');
+        return;
+      }
+
+      const { payload, source } = handleRouting(pathname, body, options, fixtures);
+      if (Math.random() < options.malformedRate) {
+        const contentType = options.malformed === 'not-json' ? 'text/html' : 'application/json';
+        send(response, 200, corruptPayload(payload, options.malformed), contentType);
+        log(200, `${source}, malformed: ${options.malformed}`);
+        return;
+      }
+
+      send(response, 200, payload);
+      log(200, source);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      if (status === 500) console.error('❌ Mock API error:', error);
+      send(response, status, { detail: error instanceof HttpError ? error.detail : error.message });
+      log(status);
+    }
+  });
+}
+
+let options;
+try {
+  options = loadStartupOptions();
+} catch (error) {
+  console.error(`❌ ${error.message}`);
+  process.exit(1);
+}
+
+const fixtures = loadFixtures();
+createServer(options, fixtures).listen(options.port, () => {
+  console.log(`🧪 Mock Ventr API on http://localhost:${options.port} (${fixtures.length} recorded ${fixtures.length === 1 ? 'fixture' : 'fixtures'})`);
+  console.log('   Options:', options);
+  console.log(`   Point the app at it with NEXT_PUBLIC_VENTR_API_BASE_URL=http://localhost:${options.port}`);
+});
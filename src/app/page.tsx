@@ -1,13 +1,35 @@
 'use client';
 
+import { useEffect, useState } from 'react';
 import MapboxMap from '@/components/MapboxMap';
+import { AppConfig, loadAppConfig } from '@/config/appConfig';
+import { SharedTrip, parseTripUrl } from '@/utils/tripUrl';
 
 export default function Home() {
+  const [config, setConfig] = useState<AppConfig | null>(null);
+  const [initialTrip, setInitialTrip] = useState<SharedTrip | null>(null);
+
+  // The map and routing service both depend on runtime config, so load it first.
+  // A shared link's trip is read at the same time and handed to the map to restore.
+  useEffect(() => {
+    setInitialTrip(parseTripUrl(window.location.search));
+    loadAppConfig().then(setConfig);
+  }, []);
+
   return (
     <div className="h-full min-h-[100dvh] bg-white flex flex-col">
       {/* Map Container */}
       <div className="flex-1 relative" style={{ minHeight: '400px' }}>
-        <MapboxMap />
+        {config ? (
+          <MapboxMap config={config} initialTrip={initialTrip} />
+        ) : (
+          <div className="absolute inset-0 bg-gray-100 flex items-center justify-center">
+            <div className="text-center">
+              <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-blue-500 mx-auto mb-4"></div>
+              <p className="text-gray-600">Loading configuration...</p>
+            </div>
+          </div>
+        )}
       </div>
     </div>
   );
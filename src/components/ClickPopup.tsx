@@ -1,5 +1,5 @@
 import React from "react";
-import { FaMapMarkerAlt, FaFlagCheckered, FaTimes } from "react-icons/fa";
+import { FaMapMarkerAlt, FaFlagCheckered, FaTimes, FaPlus } from "react-icons/fa";
 
 interface ClickPopupProps {
   lng: number;
@@ -9,7 +9,7 @@ interface ClickPopupProps {
   onSetLocation: (
     lng: number,
     lat: number,
-    type: "start" | "destination"
+    type: "start" | "destination" | "waypoint"
   ) => void;
   onClose: () => void;
   isMapboxPopup?: boolean; // New prop to determine if it's inside a Mapbox popup
@@ -122,6 +122,33 @@ return (
           <FaMapMarkerAlt className="text-xs mb-0.5" />
           Start
         </button>
+        <button
+          data-action="waypoint"
+          style={{
+            flex: 1,
+            display: "flex",
+            flexDirection: "column",
+            alignItems: "center",
+            padding: "6px 10px",
+            borderRadius: "8px",
+            backgroundColor: "#f59e0b", // amber-500
+            color: "white",
+            fontWeight: 600,
+            fontSize: "11px",
+            boxShadow: "0 1px 3px rgba(0, 0, 0, 0.2)",
+            cursor: "pointer",
+            transition: "background-color 0.2s ease-in-out",
+          }}
+          onMouseEnter={
+            (e) => (e.currentTarget.style.backgroundColor = "#d97706") // amber-600
+          }
+          onMouseLeave={
+            (e) => (e.currentTarget.style.backgroundColor = "#f59e0b") // amber-500
+          }
+        >
+          <FaPlus className="text-xs mb-0.5" />
+          Stop
+        </button>
         <button
           data-action="destination"
           style={{
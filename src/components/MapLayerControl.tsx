@@ -0,0 +1,149 @@
+import React from 'react';
+import { Layers, Loader2 } from 'lucide-react';
+import { SafeReach, MAX_INCIDENTS_RANGE, DEFAULT_SAFE_REACH_OPTIONS } from '../services/isochroneService';
+import { RoutingError } from '../services/routingErrors';
+import { getReachColor, RISK_COLORS } from '../utils/routeColors';
+import { RISK_LEVELS } from '../utils/routeRisk';
+import Formatter from '../utils/formatting';
+
+interface MapLayerControlProps {
+  isCrimeLayerVisible: boolean;
+  onToggleCrimeLayer: () => void;
+  isSafeReachVisible: boolean;
+  onToggleSafeReach: () => void;
+  hasStart: boolean;
+  maxIncidents: number;
+  onMaxIncidentsChange: (maxIncidents: number) => void;
+  safeReach: SafeReach | null;
+  isCalculatingReach: boolean;
+  reachError: RoutingError | null;
+  isRouteRiskShown: boolean;
+  hasRoutes: boolean;
+  formatter: Formatter;
+}
+
+export default function MapLayerControl({
+  isCrimeLayerVisible,
+  onToggleCrimeLayer,
+  isSafeReachVisible,
+  onToggleSafeReach,
+  hasStart,
+  maxIncidents,
+  onMaxIncidentsChange,
+  safeReach,
+  isCalculatingReach,
+  reachError,
+  isRouteRiskShown,
+  hasRoutes,
+  formatter
+}: MapLayerControlProps) {
+  return (
+    <div className="absolute bottom-8 right-3 z-10 w-56 md:w-64 bg-white/90 backdrop-blur-xl border border-slate-300 rounded-xl shadow-lg p-3 text-sm text-slate-700">
+      <div className="flex items-center gap-2 font-semibold text-slate-800 mb-2">
+        <Layers className="w-4 h-4" />
+        Map layers
+      </div>
+
+      <label className="flex items-center gap-2 py-1 cursor-pointer">
+        <input type="checkbox" checked={isCrimeLayerVisible} onChange={onToggleCrimeLayer} className="accent-red-500" />
+        Assault heatmap
+      </label>
+
+      <label className={`flex items-center gap-2 py-1 ${hasStart ? 'cursor-pointer' : 'opacity-60'}`}>
+        <input
+          type="checkbox"
+          checked={isSafeReachVisible}
+          onChange={onToggleSafeReach}
+          disabled={!hasStart}
+          className="accent-emerald-600"
+        />
+        Safe walking reach
+        {isCalculatingReach && <Loader2 className="w-4 h-4 animate-spin text-slate-500" />}
+      </label>
+      {!hasStart && <p className="text-xs text-slate-500 pl-6">Set a start point to see how far you can walk.</p>}
+
+      {isSafeReachVisible && hasStart && (
+        <div className="mt-2 pl-6 space-y-2">
+          <label className="block">
+            <div className="flex justify-between text-xs mb-1">
+              <span>Max incidents within {formatter.distance(DEFAULT_SAFE_REACH_OPTIONS.exposureRadiusM)}</span>
+              <span className="font-semibold">{maxIncidents}</span>
+            </div>
+            <input
+              type="range"
+              min={MAX_INCIDENTS_RANGE.min}
+              max={MAX_INCIDENTS_RANGE.max}
+              step={MAX_INCIDENTS_RANGE.step}
+              value={maxIncidents}
+              onChange={(e) => onMaxIncidentsChange(Number(e.target.value))}
+              className="w-full accent-emerald-600"
+              aria-label="Maximum incidents nearby for an area to count as safe"
+            />
+          </label>
+
+          {!isCrimeLayerVisible && (
+            <p className="text-xs text-amber-700">Turn on the assault heatmap to work out safe reach.</p>
+          )}
+          {reachError && <p className="text-xs text-red-700">{reachError.message}</p>}
+
+          {/* Safe area compared with the plain walking isochrone */}
+          {safeReach && !reachError && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-slate-500 text-left">
+                  <th className="font-medium">Walk</th>
+                  <th className="font-medium text-right">Safe</th>
+                  <th className="font-medium text-right">Any</th>
+                </tr>
+              </thead>
+              <tbody>
+                {safeReach.summary.map(({ minutes, safeKm2, walkableKm2 }) => (
+                  <tr key={minutes}>
+                    <td className="py-0.5">
+                      <span className="inline-block w-2.5 h-2.5 rounded-sm mr-1.5 align-middle" style={{ backgroundColor: getReachColor(minutes) }} />
+                      {formatter.duration(minutes * 60)}
+                    </td>
+                    <td className="text-right font-semibold">
+                      {formatter.area(safeKm2)}
+                    </td>
+                    <td className="text-right text-slate-500">
+                      {formatter.area(walkableKm2)}
+                      {walkableKm2 > 0 && ` (${formatter.percent(safeKm2 / walkableKm2)})`}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          <p className="text-[11px] text-slate-500">Filled: reachable avoiding hotspots. Dashed: any walking route.</p>
+        </div>
+      )}
+
+      {hasRoutes && !isCrimeLayerVisible && (
+        <p className="mt-2 pt-2 border-t border-slate-200 text-xs text-amber-700">
+          Turn on the assault heatmap to colour routes by risk.
+        </p>
+      )}
+
+      {/* Legend for the risk colouring along the route lines */}
+      {isRouteRiskShown && (
+        <div className="mt-2 pt-2 border-t border-slate-200">
+          <div className="font-semibold text-slate-800 text-xs mb-1">Route risk</div>
+          {RISK_LEVELS.map(({ level, label, maxDensity }, index) => {
+            const minDensity = index > 0 ? RISK_LEVELS[index - 1].maxDensity : 0;
+            return (
+              <div key={level} className="flex items-center gap-2 text-xs py-0.5">
+                <span className="inline-block w-4 h-1.5 rounded-full" style={{ backgroundColor: RISK_COLORS[level] }} />
+                <span className="flex-1">{label}</span>
+                <span className="text-slate-500">
+                  {Number.isFinite(maxDensity) ? `${minDensity}–${maxDensity}` : `${minDensity}+`} per {formatter.distance(100)}
+                </span>
+              </div>
+            );
+          })}
+          <p className="text-[11px] text-slate-500 mt-1">Tap a stretch of route to see its incidents.</p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,27 +1,74 @@
 "use client";
 
-import React, { useRef, useEffect, useState, useCallback } from "react";
-import mapboxgl from "mapbox-gl";
+import React, { useRef, useEffect, useState, useCallback, useMemo } from "react";
+import mapboxgl, { FilterSpecification } from "mapbox-gl";
 import "mapbox-gl/dist/mapbox-gl.css";
 import ReactDOMServer from "react-dom/server";
 import ClickPopup from "./ClickPopup";
+import RouteRiskPopup from "./RouteRiskPopup";
 import Sidebar from "./Sidebar";
-import { routingService, ProcessedRoutes } from "../services/routingService";
-
-// Set the access token
-if (process.env.NODE_ENV === 'development') {
-  mapboxgl.accessToken = process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || '';
-  console.log(mapboxgl.accessToken ? "✅ Mapbox access token set" : "❌ Mapbox access token not set");
-} else if (typeof window !== 'undefined') {
-  try {
-    const res = await fetch('https://ventr.harman-singh.com/api/mapbox-token');
-    const data = await res.json();
-    mapboxgl.accessToken = data.token || '';
-  } catch (err) {
-    console.error('Failed to fetch Mapbox token:', err);
-    mapboxgl.accessToken = ''; // fallback to avoid crash
-  }
-}
+import MapLayerControl from "./MapLayerControl";
+import NavigationPanel from "./NavigationPanel";
+import RoutingService, {
+  ProcessedRoutes,
+  RouteRequest,
+  RouteSweep,
+  RouteGeoJSON,
+  LoopRoute,
+  LngLat,
+  RoutingPreferences,
+  DEFAULT_ROUTING_PREFERENCES,
+} from "../services/routingService";
+import { preferencesService } from "../services/preferencesService";
+import { placesService, Place, SavedPlace, RecentPlace } from "../services/placesService";
+import TripHistoryService, {
+  tripHistoryService,
+  TripHistoryEntry,
+  TripPoint,
+} from "../services/tripHistoryService";
+import GeocodingService from "../services/geocodingService";
+import { RoutingError } from "../services/routingErrors";
+import IsochroneService, {
+  SafeReach,
+  IsochroneCollection,
+  DEFAULT_SAFE_REACH_OPTIONS,
+} from "../services/isochroneService";
+import { getDistanceKm } from "../utils/geometry";
+import Formatter, { DisplaySettings, DEFAULT_DISPLAY_SETTINGS } from "../utils/formatting";
+import { AppConfig } from "../config/appConfig";
+import { SharedTrip, buildTripUrl } from "../utils/tripUrl";
+import {
+  SHORTEST_ROUTE_COLOR,
+  SAFE_ROUTE_COLOR,
+  getSweepRouteColor,
+  getLoopRouteColor,
+  REACH_COLORS,
+  RISK_COLORS,
+  IMPORTED_ROUTE_COLOR,
+} from "../utils/routeColors";
+import {
+  RiskSegment,
+  scoreRouteSegments,
+  estimateRouteStats,
+  DEFAULT_ROUTE_RISK_OPTIONS,
+} from "../utils/routeRisk";
+import {
+  ImportedRoute,
+  ImportedRouteComparison,
+  RouteImportError,
+  readRouteFile,
+  sharesEndpoints,
+} from "../utils/routeImport";
+import { DirectionStep, buildDirections, mergeSameStreetSteps } from "../utils/directions";
+import {
+  getRouteProgress,
+  getNextStep,
+  describeGeolocationError,
+  OFF_ROUTE_DISTANCE_M,
+  ARRIVAL_DISTANCE_M,
+} from "../utils/navigation";
+import { buildCrimeTimeFilter } from "../utils/departureTime";
+import { getLoadedCrimePoints, hasLoadedTiles, waitForMapIdle } from "../utils/crimeSampling";
 
 interface LocationPoint {
   lng: number;
@@ -40,23 +87,40 @@ interface ClickPopup {
 const TORONTO_CENTER = { lat: 43.6532, lng: -79.3832 };
 const MAX_DISTANCE_KM = 30;
 
-// Haversine formula to calculate distance between two lat/lng points in km
-function getDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
-  const toRad = (x: number) => (x * Math.PI) / 180;
-  const R = 6371; // Earth radius in km
-  const dLat = toRad(lat2 - lat1);
-  const dLng = toRad(lng2 - lng1);
-  const a =
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRad(lat1)) *
-      Math.cos(toRad(lat2)) *
-      Math.sin(dLng / 2) *
-      Math.sin(dLng / 2);
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
-  return R * c;
+// The heatmap only draws points; departure-time filters are combined with this
+const CRIME_HEATMAP_BASE_FILTER: FilterSpecification = ["match", ["geometry-type"], ["Point"], true, false];
+
+const CRIME_LAYERS = [
+  "assault-heatmap-3312730771-3b869h",
+  "assault-circles-3312730771-3b869h",
+];
+
+// Layers drawing the regular shortest/safe route pair
+const COMPARISON_ROUTE_LAYERS = [
+  "shortest-route-outline",
+  "shortest-route-line",
+  "safe-route-outline",
+  "safe-route-line",
+  "route-risk-line",
+];
+
+// Vertices closer than this to the line don't change it at street zoom
+const RENDER_TOLERANCE_M = 0.5;
+
+// Properties of each stretch in the route risk layer
+interface RouteRiskProperties {
+  route: "safe" | "shortest";
+  incidents: number;
+  lengthM: number;
+  level: RiskSegment["level"];
+}
+
+interface MapboxMapProps {
+  config: AppConfig; // Runtime config, loaded before the map is created
+  initialTrip?: SharedTrip | null; // From a shared link, restored once the map loads
 }
 
-export default function MapboxMap() {
+export default function MapboxMap({ config, initialTrip = null }: MapboxMapProps) {
   const mapContainer = useRef<HTMLDivElement>(null);
   const map = useRef<mapboxgl.Map | null>(null);
   const [isLoading, setIsLoading] = useState(true);
@@ -66,6 +130,9 @@ export default function MapboxMap() {
   const [startPoint, setStartPoint] = useState<LocationPoint | null>(null);
   const [destinationPoint, setDestinationPoint] =
     useState<LocationPoint | null>(null);
+  // Intermediate stops between start and destination, in travel order
+  const [waypoints, setWaypoints] = useState<LocationPoint[]>([]);
+  const waypointMarkersRef = useRef<mapboxgl.Marker[]>([]);
   const startMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const destinationMarkerRef = useRef<mapboxgl.Marker | null>(null);
   const startMarkerIdRef = useRef<string | undefined>(undefined);
@@ -79,20 +146,116 @@ export default function MapboxMap() {
   // Route state
   const [routes, setRoutes] = useState<ProcessedRoutes | null>(null);
   const [isLoadingRoutes, setIsLoadingRoutes] = useState(false);
-  const [routeError, setRouteError] = useState<string | null>(null);
+  const [routeError, setRouteError] = useState<RoutingError | null>(null);
+
+  // Safety vs. distance preferences, restored from localStorage after mount
+  const [routingPreferences, setRoutingPreferences] =
+    useState<RoutingPreferences>(DEFAULT_ROUTING_PREFERENCES);
+
+  // Units and locale for every distance, time and count shown
+  const [displaySettings, setDisplaySettings] = useState<DisplaySettings>(DEFAULT_DISPLAY_SETTINGS);
+  const formatter = useMemo(() => new Formatter(displaySettings), [displaySettings]);
+  // Read by map event handlers registered once at load
+  const formatterRef = useRef<Formatter>(formatter);
+
+  const routingService = useMemo(() => RoutingService.fromConfig(config), [config]);
+  const geocodingService = useMemo(() => new GeocodingService(config.mapboxToken), [config]);
+
+  // Controller for the calculation in flight, aborted when superseded or unmounted
+  const calculationAbortRef = useRef<AbortController | null>(null);
+
+  // When the walk happens; null routes and shades on incidents at any time of day
+  const [departureTime, setDepartureTime] = useState<Date | null>(null);
+  // Read by the crime layers when the style finishes loading
+  const departureTimeRef = useRef<Date | null>(null);
+
+  // Crime-weight sweep for exploring the distance vs. safety trade-off
+  const [routeSweep, setRouteSweep] = useState<RouteSweep | null>(null);
+  const [isSweeping, setIsSweeping] = useState(false);
+  const [sweepError, setSweepError] = useState<RoutingError | null>(null);
+  const [selectedSweepIndex, setSelectedSweepIndex] = useState<number | null>(null);
+  const sweepAbortRef = useRef<AbortController | null>(null);
+
+  // Round trips from the start point, safest first
+  const [loops, setLoops] = useState<LoopRoute[] | null>(null);
+  const [isFindingLoops, setIsFindingLoops] = useState(false);
+  const [loopError, setLoopError] = useState<RoutingError | null>(null);
+  const [selectedLoopIndex, setSelectedLoopIndex] = useState<number | null>(null);
+  const loopAbortRef = useRef<AbortController | null>(null);
+
+  // Map layer toggles
+  const [isCrimeLayerVisible, setIsCrimeLayerVisible] = useState(true);
+  const [isSafeReachVisible, setIsSafeReachVisible] = useState(false);
+
+  // Walking isochrones from the start point and the crime points sampled inside them;
+  // the safe part is recomputed locally when the threshold changes
+  const isochroneService = useMemo(() => new IsochroneService(config.mapboxToken), [config]);
+  const [reachInputs, setReachInputs] = useState<{
+    walkable: IsochroneCollection;
+    incidents: LngLat[];
+    start: { lng: number; lat: number };
+  } | null>(null);
+  const [maxReachIncidents, setMaxReachIncidents] = useState(DEFAULT_SAFE_REACH_OPTIONS.maxIncidents);
+  const [isCalculatingReach, setIsCalculatingReach] = useState(false);
+  const [reachError, setReachError] = useState<RoutingError | null>(null);
+
+  // Each comparison route cut into stretches rated by nearby incidents
+  const [routeRisk, setRouteRisk] = useState<{ safe: RiskSegment[]; shortest: RiskSegment[] } | null>(null);
+
+  // A route from the user's own GPX/GeoJSON file, scored alongside the safe route
+  const [importedRoute, setImportedRoute] = useState<ImportedRoute | null>(null);
+  const [importComparison, setImportComparison] = useState<ImportedRouteComparison | null>(null);
+  const [importScoringError, setImportScoringError] = useState<string | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const [isDraggingFile, setIsDraggingFile] = useState(false);
+
+  // Turn-by-turn steps for the safe route; street names are filled in once looked up
+  const [directions, setDirections] = useState<DirectionStep[] | null>(null);
+
+  // Live navigation along the safe route, following the device's position
+  const [isNavigating, setIsNavigating] = useState(false);
+  const [navigationPosition, setNavigationPosition] = useState<{
+    point: LngLat;
+    accuracyM: number;
+    heading: number | null;
+  } | null>(null);
+  const [navigationError, setNavigationError] = useState<string | null>(null);
+  const navigationWatchRef = useRef<number | null>(null);
+  const userMarkerRef = useRef<mapboxgl.Marker | null>(null);
+  // Set when points are changed in code (a reroute or a shared link) and routes should be
+  // calculated once they reach state, optionally followed by a sweep
+  const pendingCalculationRef = useRef<{ sweepCrimeWeight?: number } | null>(null);
+  const hasRestoredTripRef = useRef(false);
+  // Parameters restored with a replayed trip; its saved routes already match them,
+  // so they shouldn't trigger a recalculation
+  const replayedParametersRef = useRef<{ preferences: RoutingPreferences; departureTime: Date | null } | null>(null);
+
+  // Named places and recent destinations, offered in the search box and as quick chips
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>([]);
+  const [recentPlaces, setRecentPlaces] = useState<RecentPlace[]>([]);
+
+  // Every calculated trip, most recent first, with its latest routes for replaying
+  const [tripHistory, setTripHistory] = useState<TripHistoryEntry[]>([]);
 
-  // Use ref to track the latest calculation to handle race conditions
-  const latestCalculationId = useRef<number>(0);
+  useEffect(() => {
+    setRoutingPreferences(preferencesService.loadRoutingPreferences());
+    setDisplaySettings(preferencesService.loadDisplaySettings());
+    setSavedPlaces(placesService.loadSavedPlaces());
+    setRecentPlaces(placesService.loadRecentPlaces());
+    setTripHistory(tripHistoryService.load());
+  }, []);
 
   // Popup for out-of-bounds selection
   const [popupMessage, setPopupMessage] = useState<string | null>(null);
   const popupTimeoutRef = useRef<NodeJS.Timeout | null>(null);
 
   useEffect(() => {
+    mapboxgl.accessToken = config.mapboxToken;
+
     // Check if we have a token
     if (!mapboxgl.accessToken) {
       setMapError(
-        "Mapbox access token is missing. Please add NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN to your .env.local file."
+        "Mapbox access token is missing. Set it in the worker's /api/config, or add NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN to your .env.local file for local development."
       );
       setIsLoading(false);
       return;
@@ -182,6 +345,7 @@ export default function MapboxMap() {
 
     // Cleanup function
     return () => {
+      cancelRouteCalculation();
       if (clickPopupRef.current) {
         clickPopupRef.current.remove();
         clickPopupRef.current = null;
@@ -208,6 +372,15 @@ export default function MapboxMap() {
         clickPopupRef.current.remove();
       }
 
+      // Clicking a stretch of route explains its colour instead of offering to set a point
+      const riskFeature = map.current?.getLayer("route-risk-line")
+        ? map.current.queryRenderedFeatures(e.point, { layers: ["route-risk-line"] })[0]
+        : undefined;
+      if (riskFeature) {
+        showRouteRiskPopup(e.lngLat, riskFeature.properties as RouteRiskProperties);
+        return;
+      }
+
       // Create React component content as HTML string
       const popupContent = ReactDOMServer.renderToString(
         <ClickPopup
@@ -277,6 +450,9 @@ export default function MapboxMap() {
           const destBtn = popupElement.querySelector(
             '[data-action="destination"]'
           );
+          const waypointBtn = popupElement.querySelector(
+            '[data-action="waypoint"]'
+          );
           const closeBtn = popupElement.querySelector('[data-action="close"]');
 
           if (startBtn) {
@@ -293,6 +469,13 @@ export default function MapboxMap() {
             });
           }
 
+          if (waypointBtn) {
+            waypointBtn.addEventListener("click", () => {
+              handleSetLocation(lng, lat, "waypoint");
+              popup.remove();
+            });
+          }
+
           if (closeBtn) {
             closeBtn.addEventListener("click", () => {
               popup.remove();
@@ -306,6 +489,39 @@ export default function MapboxMap() {
         clickPopupRef.current = null;
       });
     });
+
+    // Show that route stretches are clickable
+    map.current.on("mousemove", (e) => {
+      if (!map.current?.getLayer("route-risk-line")) return;
+      const isOverRoute = map.current.queryRenderedFeatures(e.point, { layers: ["route-risk-line"] }).length > 0;
+      map.current.getCanvas().style.cursor = isOverRoute ? "pointer" : "";
+    });
+  };
+
+  // Incident count for a clicked stretch of route
+  const showRouteRiskPopup = (lngLat: mapboxgl.LngLat, properties: RouteRiskProperties) => {
+    if (!map.current) return;
+
+    const popupContent = ReactDOMServer.renderToString(
+      <RouteRiskPopup
+        route={properties.route}
+        incidents={properties.incidents}
+        lengthM={properties.lengthM}
+        radiusM={DEFAULT_ROUTE_RISK_OPTIONS.radiusM}
+        level={properties.level}
+        formatter={formatterRef.current}
+      />
+    );
+
+    const popup = new mapboxgl.Popup({ maxWidth: "260px", focusAfterOpen: false })
+      .setLngLat(lngLat)
+      .setHTML(popupContent)
+      .addTo(map.current);
+
+    clickPopupRef.current = popup;
+    popup.on("close", () => {
+      if (clickPopupRef.current === popup) clickPopupRef.current = null;
+    });
   };
 
   // Add start point marker (for search results)
@@ -393,16 +609,19 @@ export default function MapboxMap() {
     }
     setStartPoint(null);
     setDestinationPoint(null);
+    setWaypoints([]);
     setStartInputValue("");
     setDestinationInputValue("");
+    setImportedRoute(null);
+    setImportError(null);
   };
 
-  // Handle setting a location from click popup
+  // Handle setting a location from click popup. Resolves false if the point was refused.
   const handleSetLocation = async (
     lng: number,
     lat: number,
-    type: "start" | "destination"
-  ) => {
+    type: "start" | "destination" | "waypoint"
+  ): Promise<boolean> => {
     // Check if within 30km of Toronto center
     const dist = getDistanceKm(
       lat,
@@ -418,13 +637,16 @@ export default function MapboxMap() {
       if (popupTimeoutRef.current) clearTimeout(popupTimeoutRef.current);
       popupTimeoutRef.current = setTimeout(() => setPopupMessage(null), 2000);
       if (type === "start") setStartInputValue("");
-      else setDestinationInputValue("");
-      return;
+      else if (type === "destination") setDestinationInputValue("");
+      return false;
     }
     // Get address using reverse geocoding
     const address = await reverseGeocode(lng, lat);
 
-    if (type === "start") {
+    if (type === "waypoint") {
+      // Functional update: this handler is captured by the map click listener
+      setWaypoints((current) => [...current, { lng, lat, address }]);
+    } else if (type === "start") {
       // Remove existing start marker first
       if (startMarkerRef.current) {
         startMarkerRef.current.remove();
@@ -490,13 +712,14 @@ export default function MapboxMap() {
       destinationMarkerRef.current = marker;
       destinationMarkerIdRef.current = el.id;
     }
+    return true;
   };
 
   // Handle location selection from search
   const handleLocationSelect = async (
     location: { lng: number; lat: number; address: string },
-    type: "start" | "destination"
-  ) => {
+    type: "start" | "destination" | "waypoint"
+  ): Promise<boolean> => {
     // Check if within 30km of Toronto center
     const dist = getDistanceKm(
       location.lat,
@@ -512,10 +735,12 @@ export default function MapboxMap() {
       if (popupTimeoutRef.current) clearTimeout(popupTimeoutRef.current);
       popupTimeoutRef.current = setTimeout(() => setPopupMessage(null), 2000);
       if (type === "start") setStartInputValue("");
-      else setDestinationInputValue("");
-      return;
+      else if (type === "destination") setDestinationInputValue("");
+      return false;
     }
-    if (type === "start") {
+    if (type === "waypoint") {
+      setWaypoints((current) => [...current, location]);
+    } else if (type === "start") {
       setStartPoint(location);
       setStartInputValue(location.address);
       await addStartMarker(location.lng, location.lat);
@@ -533,8 +758,140 @@ export default function MapboxMap() {
         duration: 2000,
       });
     }
+    return true;
+  };
+
+  // Put a past trip's points back as they were, without looking their addresses up again
+  const placeTripPoints = (entry: TripHistoryEntry) => {
+    const describe = (point: TripPoint) => point.address ?? `${point.lat.toFixed(6)}, ${point.lng.toFixed(6)}`;
+
+    addStartMarker(entry.start.lng, entry.start.lat);
+    addDestinationMarker(entry.destination.lng, entry.destination.lat);
+    setStartPoint(entry.start);
+    setStartInputValue(describe(entry.start));
+    setDestinationPoint(entry.destination);
+    setDestinationInputValue(describe(entry.destination));
+    setWaypoints(entry.waypoints);
+  };
+
+  // Show the routes stored with a past trip, with the parameters they were calculated with;
+  // nothing is requested
+  const replayTrip = (entry: TripHistoryEntry) => {
+    cancelRouteCalculation();
+    closeRouteSweep();
+    closeLoops();
+    stopNavigation();
+    placeTripPoints(entry);
+
+    console.log("🕘 Replaying saved trip", entry.key);
+    const departure = entry.departureTime ? new Date(entry.departureTime) : null;
+    replayedParametersRef.current = { preferences: entry.preferences, departureTime: departure };
+    setRoutingPreferences(entry.preferences);
+    setDepartureTime(departure);
+    const savedRoutes: ProcessedRoutes = { ...entry.routes, cachedAt: entry.updatedAt };
+    setIsLoadingRoutes(false);
+    setRouteError(null);
+    setRoutes(savedRoutes);
+    addRoutesToMap(savedRoutes);
+  };
+
+  // Calculate a past trip again with the parameters and route choice it was saved with
+  const rerunTrip = (entry: TripHistoryEntry) => {
+    // Routes are cleared first so the preference change doesn't start a second calculation
+    cancelRouteCalculation();
+    stopNavigation();
+    setRoutes(null);
+    removeRoutesFromMap();
+
+    console.log("🔁 Re-running saved trip", entry.key);
+    setRoutingPreferences(entry.preferences);
+    setDepartureTime(entry.departureTime ? new Date(entry.departureTime) : null);
+    placeTripPoints(entry);
+    pendingCalculationRef.current = { sweepCrimeWeight: entry.chosenRoute.sweepCrimeWeight };
+  };
+
+  const handleRemoveTrip = (key: string) => {
+    setTripHistory(tripHistoryService.remove(key));
   };
 
+  // A saved or recent place becomes the destination, and the trip is planned right away
+  // if there is already a start to plan it from
+  const selectQuickPlace = async (place: Place) => {
+    if (startPoint) pendingCalculationRef.current = {};
+    if (!(await handleLocationSelect(place, "destination"))) pendingCalculationRef.current = null;
+  };
+
+  const handleSavePlace = (name: string) => {
+    if (!destinationPoint?.address) return;
+    setSavedPlaces(
+      placesService.savePlace(name, {
+        lng: destinationPoint.lng,
+        lat: destinationPoint.lat,
+        address: destinationPoint.address,
+      })
+    );
+  };
+
+  const handleRemoveSavedPlace = (id: string) => {
+    setSavedPlaces(placesService.removeSavedPlace(id));
+  };
+
+  // Shown routes go through the old stops, so plan again once the change is in state,
+  // as a preference change does
+  const recalculateAfterStopChange = () => {
+    if (routes) pendingCalculationRef.current = {};
+  };
+
+  // Remove an intermediate stop
+  const handleRemoveWaypoint = (index: number) => {
+    recalculateAfterStopChange();
+    setWaypoints((current) => current.filter((_, i) => i !== index));
+  };
+
+  // Move an intermediate stop earlier (-1) or later (+1) in the trip
+  const handleMoveWaypoint = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= waypoints.length) return;
+
+    recalculateAfterStopChange();
+    setWaypoints((current) => {
+      const reordered = [...current];
+      [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+      return reordered;
+    });
+  };
+
+  // Keep numbered waypoint markers in sync with the list of stops
+  useEffect(() => {
+    if (!map.current) return;
+
+    waypointMarkersRef.current.forEach((marker) => marker.remove());
+    waypointMarkersRef.current = waypoints.map((waypoint, index) => {
+      const el = document.createElement("div");
+      el.className = "waypoint-marker";
+      el.textContent = String(index + 1);
+      el.style.cssText = `
+        background-color: #f59e0b;
+        width: 22px;
+        height: 22px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 2px 6px rgba(0,0,0,0.3);
+        color: white;
+        font-size: 11px;
+        font-weight: 700;
+        display: flex;
+        align-items: center;
+        justify-content: center;
+        cursor: pointer;
+      `;
+
+      return new mapboxgl.Marker(el)
+        .setLngLat([waypoint.lng, waypoint.lat])
+        .addTo(map.current!);
+    });
+  }, [waypoints]);
+
   // Handle input changes from the search box
   const handleInputChange = (value: string, type: "start" | "destination") => {
     if (type === "start") {
@@ -544,61 +901,769 @@ export default function MapboxMap() {
     }
   };
 
+  // Abort the calculation in flight, if any
+  const cancelRouteCalculation = () => {
+    const controller = calculationAbortRef.current;
+    calculationAbortRef.current = null;
+    controller?.abort();
+  };
+
+  // The trip as the routing service expects it, or null until both ends are set
+  const getRouteRequest = (): RouteRequest | null => {
+    if (!startPoint || !destinationPoint) return null;
+    return {
+      start_lng: startPoint.lng,
+      start_lat: startPoint.lat,
+      end_lng: destinationPoint.lng,
+      end_lat: destinationPoint.lat,
+      waypoints: waypoints.map(({ lng, lat }) => ({ lng, lat })),
+      ...(departureTime && { departure_time: departureTime.toISOString() }),
+    };
+  };
+
   // Calculate routes when both start and destination are available
   const calculateRoutes = useCallback(async () => {
-    if (!startPoint || !destinationPoint || !map.current) {
+    const routeRequest = getRouteRequest();
+    if (!routeRequest || !map.current) {
       return;
     }
 
-    // Generate a unique ID for this calculation to handle race conditions
-    const currentCalculationId = Date.now();
-    latestCalculationId.current = currentCalculationId;
+    // Cancel the previous calculation - its result would be discarded anyway
+    cancelRouteCalculation();
+    const controller = new AbortController();
+    calculationAbortRef.current = controller;
 
-    console.log("🚗 Starting route calculation...", currentCalculationId);
+    // A sweep or loops for the previous trip or preferences no longer apply
+    closeRouteSweep();
+    closeLoops();
+
+    console.log("🚗 Starting route calculation...");
     setIsLoadingRoutes(true);
     setRouteError(null);
 
     try {
-      const routeRequest = {
-        start_lng: startPoint.lng,
-        start_lat: startPoint.lat,
-        end_lng: destinationPoint.lng,
-        end_lat: destinationPoint.lat,
-      };
-
       const calculatedRoutes = await routingService.calculateRoutes(
-        routeRequest
+        routeRequest,
+        routingPreferences,
+        controller.signal
       );
 
-      // Check if this is still the latest calculation
-      if (currentCalculationId === latestCalculationId.current) {
-        console.log("✅ Routes calculated successfully:", calculatedRoutes);
-        setRoutes(calculatedRoutes);
-
-        // Add routes to map
-        addRoutesToMap(calculatedRoutes);
-      } else {
-        console.log(
-          "🔄 Discarding outdated route calculation:",
-          currentCalculationId
+      // The request may have been cancelled after the response arrived
+      if (controller.signal.aborted) return;
+
+      console.log("✅ Routes calculated successfully:", calculatedRoutes);
+      setRoutes(calculatedRoutes);
+      if (destinationPoint?.address) {
+        setRecentPlaces(
+          placesService.addRecentPlace({
+            lng: destinationPoint.lng,
+            lat: destinationPoint.lat,
+            address: destinationPoint.address,
+          })
         );
       }
-    } catch (error) {
-      // Only update error state if this is still the latest calculation
-      if (currentCalculationId === latestCalculationId.current) {
-        console.error("❌ Route calculation failed:", error);
-        setRouteError(
-          error instanceof Error ? error.message : "Failed to calculate routes"
+      if (!calculatedRoutes.isDemo && startPoint && destinationPoint) {
+        setTripHistory(
+          tripHistoryService.record({
+            start: startPoint,
+            destination: destinationPoint,
+            waypoints,
+            preferences: routingPreferences,
+            departureTime,
+            routes: calculatedRoutes,
+          })
         );
       }
+
+      // Add routes to map
+      addRoutesToMap(calculatedRoutes);
+    } catch (error) {
+      // Cancelled calculations leave loading and error state to whoever cancelled them
+      if (controller.signal.aborted || RoutingService.isAbortError(error)) {
+        console.log("🛑 Route calculation cancelled");
+        return;
+      }
+
+      console.error("❌ Route calculation failed:", error);
+      setRouteError(RoutingError.from(error));
     } finally {
-      // Only update loading state if this is still the latest calculation
-      if (currentCalculationId === latestCalculationId.current) {
+      if (calculationAbortRef.current === controller) {
+        calculationAbortRef.current = null;
         setIsLoadingRoutes(false);
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [startPoint, destinationPoint]);
+  }, [routingService, startPoint, destinationPoint, waypoints, routingPreferences, departureTime]);
+
+  // Abort the sweep in flight, if any
+  const cancelRouteSweep = () => {
+    const controller = sweepAbortRef.current;
+    sweepAbortRef.current = null;
+    controller?.abort();
+  };
+
+  // Calculate routes across several crime weights and show every distinct one
+  const exploreRouteSweep = async (preferredCrimeWeight: number = routingPreferences.crimeWeight) => {
+    const routeRequest = getRouteRequest();
+    if (!routeRequest) return;
+
+    cancelRouteSweep();
+    const controller = new AbortController();
+    sweepAbortRef.current = controller;
+
+    closeLoops();
+    setIsSweeping(true);
+    setSweepError(null);
+
+    try {
+      const sweep = await routingService.calculateRouteSweep(
+        routeRequest,
+        routingPreferences,
+        undefined,
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+
+      // Start on the route closest to the current crime weight setting
+      const distanceToPreference = (weights: number[]) =>
+        Math.min(...weights.map((weight) => Math.abs(weight - preferredCrimeWeight)));
+      const initialIndex = sweep.routes.reduce(
+        (best, route, index) =>
+          distanceToPreference(route.crimeWeights) < distanceToPreference(sweep.routes[best].crimeWeights)
+            ? index
+            : best,
+        0
+      );
+
+      setRouteSweep(sweep);
+      setSelectedSweepIndex(initialIndex);
+    } catch (error) {
+      if (controller.signal.aborted || RoutingService.isAbortError(error)) {
+        console.log("🛑 Route sweep cancelled");
+        return;
+      }
+
+      console.error("❌ Route sweep failed:", error);
+      setSweepError(RoutingError.from(error));
+    } finally {
+      if (sweepAbortRef.current === controller) {
+        sweepAbortRef.current = null;
+        setIsSweeping(false);
+      }
+    }
+  };
+
+  const closeRouteSweep = () => {
+    cancelRouteSweep();
+    setIsSweeping(false);
+    setRouteSweep(null);
+    setSweepError(null);
+    setSelectedSweepIndex(null);
+  };
+
+  // Keep the sweep layer in step with the sweep and the selected route.
+  // Routes are coloured from shortest (blue) to safest (green).
+  useEffect(() => {
+    if (routeSweep) {
+      showRouteOptionsOnMap(
+        "sweep-routes",
+        routeSweep.routes.map(({ route }, index) => ({
+          geojson: route.route_geojson,
+          color: getSweepRouteColor(index, routeSweep.routes.length),
+        })),
+        selectedSweepIndex
+      );
+    } else {
+      removeRouteOptionsFromMap("sweep-routes");
+    }
+  }, [routeSweep, selectedSweepIndex]);
+
+  // A route picked from the sweep becomes the trip's choice in its history
+  useEffect(() => {
+    if (!routeSweep || routeSweep.isDemo || selectedSweepIndex === null || !startPoint || !destinationPoint) return;
+
+    const { route, crimeWeights } = routeSweep.routes[selectedSweepIndex];
+    const key = TripHistoryService.getTripKey(startPoint, destinationPoint, waypoints, routingPreferences, departureTime);
+    setTripHistory(
+      tripHistoryService.setChosenRoute(key, {
+        label: `Trade-off route (crime weight ${crimeWeights[0].toFixed(2)})`,
+        stats: route.route_stats,
+        sweepCrimeWeight: crimeWeights[0],
+      })
+    );
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeSweep, selectedSweepIndex]);
+
+  // Abort the loop search in flight, if any
+  const cancelLoopSearch = () => {
+    const controller = loopAbortRef.current;
+    loopAbortRef.current = null;
+    controller?.abort();
+  };
+
+  // Generate round trips from the start point of about the target distance
+  const findLoops = async (targetDistanceM: number) => {
+    if (!startPoint) return;
+
+    cancelLoopSearch();
+    const controller = new AbortController();
+    loopAbortRef.current = controller;
+
+    closeRouteSweep();
+    setIsFindingLoops(true);
+    setLoopError(null);
+
+    try {
+      const foundLoops = await routingService.calculateLoops(
+        {
+          start: { lng: startPoint.lng, lat: startPoint.lat },
+          target_distance_m: targetDistanceM,
+          ...(departureTime && { departure_time: departureTime.toISOString() }),
+        },
+        routingPreferences,
+        undefined,
+        controller.signal
+      );
+      if (controller.signal.aborted) return;
+
+      setLoops(foundLoops);
+      setSelectedLoopIndex(0);
+      fitMapToCoordinates(
+        foundLoops.flatMap((loop) => RoutingService.getRouteCoordinates(loop.route.route_geojson))
+      );
+    } catch (error) {
+      if (controller.signal.aborted || RoutingService.isAbortError(error)) {
+        console.log("🛑 Loop search cancelled");
+        return;
+      }
+
+      console.error("❌ Loop search failed:", error);
+      setLoopError(RoutingError.from(error));
+    } finally {
+      if (loopAbortRef.current === controller) {
+        loopAbortRef.current = null;
+        setIsFindingLoops(false);
+      }
+    }
+  };
+
+  const closeLoops = () => {
+    cancelLoopSearch();
+    setIsFindingLoops(false);
+    setLoops(null);
+    setLoopError(null);
+    setSelectedLoopIndex(null);
+  };
+
+  useEffect(() => {
+    if (loops) {
+      showRouteOptionsOnMap(
+        "loop-routes",
+        loops.map((loop, index) => ({
+          geojson: loop.route.route_geojson,
+          color: getLoopRouteColor(index),
+        })),
+        selectedLoopIndex
+      );
+    } else {
+      removeRouteOptionsFromMap("loop-routes");
+    }
+  }, [loops, selectedLoopIndex]);
+
+  // Loops start from the start point, so moving it makes them stale
+  useEffect(() => {
+    closeLoops();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [startPoint]);
+
+  const toggleCrimeLayer = () => {
+    const visible = !isCrimeLayerVisible;
+    setIsCrimeLayerVisible(visible);
+    CRIME_LAYERS.forEach((layerId) => {
+      if (map.current?.getLayer(layerId)) {
+        map.current.setLayoutProperty(layerId, "visibility", visible ? "visible" : "none");
+      }
+    });
+  };
+
+  // Fetch isochrones for the start point and sample the crime points inside them
+  // Hidden crime layers load no tiles to sample, so reach waits for the heatmap to be shown
+  useEffect(() => {
+    if (!isSafeReachVisible || !startPoint || !isCrimeLayerVisible || !map.current) {
+      setReachInputs(null);
+      setReachError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    const start = { lng: startPoint.lng, lat: startPoint.lat };
+
+    (async () => {
+      setIsCalculatingReach(true);
+      setReachError(null);
+      try {
+        const walkable = await isochroneService.getWalkingIsochrones(start, undefined, controller.signal);
+        if (controller.signal.aborted || !map.current) return;
+
+        // Crime points come from loaded tiles, so bring the whole area into view first
+        fitMapToCoordinates(
+          walkable.features.flatMap((feature) =>
+            (feature.geometry.type === "Polygon"
+              ? [feature.geometry.coordinates]
+              : feature.geometry.coordinates
+            ).flatMap((polygon) => polygon[0] as LngLat[])
+          )
+        );
+        await waitForMapIdle(map.current);
+        if (controller.signal.aborted || !map.current) return;
+        if (!hasLoadedTiles(map.current, "crime-data")) {
+          throw new Error("Incident data for this area hasn't loaded. Zoom in and try again.");
+        }
+
+        const incidents = getLoadedCrimePoints(
+          map.current,
+          "crime-data",
+          config.tilesets.crime.sourceLayer,
+          departureTime ? buildCrimeTimeFilter(departureTime) : undefined
+        );
+        console.log(`🧭 Sampled ${incidents.length} incidents for safe reach`);
+        setReachInputs({ walkable, incidents, start });
+      } catch (error) {
+        if (controller.signal.aborted || RoutingService.isAbortError(error)) return;
+        console.error("❌ Safe reach failed:", error);
+        setReachError(RoutingError.from(error));
+      } finally {
+        if (!controller.signal.aborted) setIsCalculatingReach(false);
+      }
+    })();
+
+    return () => {
+      controller.abort();
+      setIsCalculatingReach(false);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isSafeReachVisible, startPoint, departureTime, isochroneService, isCrimeLayerVisible]);
+
+  const safeReach: SafeReach | null = useMemo(
+    () =>
+      reachInputs
+        ? IsochroneService.computeSafeReach(reachInputs.walkable, reachInputs.start, reachInputs.incidents, {
+            ...DEFAULT_SAFE_REACH_OPTIONS,
+            maxIncidents: maxReachIncidents,
+          })
+        : null,
+    [reachInputs, maxReachIncidents]
+  );
+
+  useEffect(() => {
+    if (safeReach) {
+      showSafeReachOnMap(safeReach);
+    } else {
+      removeSafeReachFromMap();
+    }
+  }, [safeReach]);
+
+  useEffect(() => {
+    formatterRef.current = formatter;
+  }, [formatter]);
+
+  // Rate stretches of the new routes by the incidents around them. The map is fitting
+  // to the routes at this point, so wait for their tiles before sampling. A hidden crime
+  // layer has no tiles, and would rate everything low, so the routes go unrated instead.
+  useEffect(() => {
+    setRouteRisk(null);
+    if (!routes || !isCrimeLayerVisible || !map.current) return;
+
+    let isCancelled = false;
+    (async () => {
+      await waitForMapIdle(map.current!);
+      if (isCancelled || !map.current) return;
+      if (!hasLoadedTiles(map.current, "crime-data")) {
+        console.warn("⚠️ No crime tiles loaded; skipping route risk");
+        return;
+      }
+
+      const incidents = getLoadedCrimePoints(
+        map.current,
+        "crime-data",
+        config.tilesets.crime.sourceLayer,
+        departureTime ? buildCrimeTimeFilter(departureTime) : undefined
+      );
+      setRouteRisk({
+        safe: scoreRouteSegments(RoutingService.getRouteCoordinates(routes.safe.route_geojson), incidents),
+        shortest: scoreRouteSegments(RoutingService.getRouteCoordinates(routes.shortest.route_geojson), incidents),
+      });
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routes, departureTime, isCrimeLayerVisible]);
+
+  useEffect(() => {
+    if (!routes) {
+      setDirections(null);
+      return;
+    }
+
+    const steps = buildDirections(RoutingService.getRouteCoordinates(routes.safe.route_geojson));
+    setDirections(steps);
+
+    const controller = new AbortController();
+    const lookups = steps.filter((step) => step.maneuver !== "arrive");
+    geocodingService
+      .getStreetNames(lookups.map((step) => step.namePoint), controller.signal)
+      .then((names) => {
+        if (controller.signal.aborted) return;
+        setDirections(
+          mergeSameStreetSteps(
+            steps.map((step, index) => ({ ...step, streetName: names[index] ?? undefined }))
+          )
+        );
+      })
+      .catch((error) => {
+        if (!RoutingService.isAbortError(error)) console.error("❌ Street names for directions failed:", error);
+      });
+
+    return () => controller.abort();
+  }, [routes, geocodingService]);
+
+  // Score the imported route, and the safe route if it joins the same two points, from one
+  // sample of incidents so the numbers are comparable
+  useEffect(() => {
+    setImportComparison(null);
+    setImportScoringError(null);
+    if (!importedRoute || !map.current) return;
+    // Without crime tiles both routes would score a confident, meaningless 100
+    if (!isCrimeLayerVisible) {
+      setImportScoringError("Turn on the assault heatmap to score this route.");
+      return;
+    }
+
+    const track = importedRoute.coordinates;
+    const safe = routes ? RoutingService.getRouteCoordinates(routes.safe.route_geojson) : null;
+    const isSameTrip = !!safe && sharesEndpoints(track, safe);
+
+    let isCancelled = false;
+    (async () => {
+      try {
+        fitMapToCoordinates(isSameTrip ? [...track, ...safe] : track);
+        await waitForMapIdle(map.current!);
+        if (isCancelled || !map.current) return;
+        if (!hasLoadedTiles(map.current, "crime-data")) {
+          setImportScoringError("Incident data for this route hasn't loaded. Zoom in to score it.");
+          return;
+        }
+
+        const time = departureTimeRef.current;
+        const incidents = getLoadedCrimePoints(
+          map.current,
+          "crime-data",
+          config.tilesets.crime.sourceLayer,
+          time ? buildCrimeTimeFilter(time) : undefined
+        );
+        const baselineDistance = isSameTrip ? routes?.shortest.route_stats.total_distance_m : undefined;
+        setImportComparison({
+          imported: estimateRouteStats(track, incidents, baselineDistance),
+          safe: isSameTrip ? estimateRouteStats(safe, incidents, baselineDistance) : null,
+        });
+      } catch (error) {
+        console.error("❌ Scoring the imported route failed:", error);
+        if (!isCancelled) setImportScoringError("This route couldn't be scored.");
+      }
+    })();
+
+    return () => {
+      isCancelled = true;
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [importedRoute, routes, isCrimeLayerVisible]);
+
+  useEffect(() => {
+    if (importedRoute) {
+      showImportedRouteOnMap(importedRoute);
+    } else {
+      removeImportedRouteFromMap();
+    }
+  }, [importedRoute]);
+
+  // Draw a GPX/GeoJSON route and plan between its ends so there is a safe route to compare
+  const importRouteFile = async (file: File) => {
+    setImportError(null);
+
+    let imported: ImportedRoute;
+    try {
+      imported = await readRouteFile(file);
+    } catch (error) {
+      console.warn("⚠️ Route import failed:", error);
+      setImportError(error instanceof RouteImportError ? error.message : "This file couldn't be read.");
+      return;
+    }
+
+    const start = imported.coordinates[0];
+    const end = imported.coordinates[imported.coordinates.length - 1];
+    const isOutside = [start, end].some(
+      ([lng, lat]) => getDistanceKm(lat, lng, TORONTO_CENTER.lat, TORONTO_CENTER.lng) > MAX_DISTANCE_KM
+    );
+    if (isOutside) {
+      setImportError("This route starts or ends outside Toronto, where incident data is available.");
+      return;
+    }
+
+    console.log(`📂 Imported "${imported.name}" with ${imported.coordinates.length} points`);
+    setImportedRoute(imported);
+    setWaypoints([]);
+    pendingCalculationRef.current = {};
+    const isPlaced =
+      (await handleSetLocation(start[0], start[1], "start")) &&
+      (await handleSetLocation(end[0], end[1], "destination"));
+    if (!isPlaced) pendingCalculationRef.current = null;
+  };
+
+  const clearImportedRoute = () => {
+    setImportedRoute(null);
+    setImportError(null);
+  };
+
+  const handleFileDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setIsDraggingFile(false);
+    const file = e.dataTransfer.files[0];
+    if (file) importRouteFile(file);
+  };
+
+  const flyToDirectionStep = (step: DirectionStep) => {
+    map.current?.flyTo({ center: step.location, zoom: 18, duration: 1200 });
+  };
+
+  const stopNavigation = () => {
+    if (navigationWatchRef.current !== null) {
+      navigator.geolocation.clearWatch(navigationWatchRef.current);
+      navigationWatchRef.current = null;
+    }
+    userMarkerRef.current?.remove();
+    userMarkerRef.current = null;
+    pendingCalculationRef.current = null;
+    setIsNavigating(false);
+    setNavigationPosition(null);
+    setNavigationError(null);
+  };
+
+  const startNavigation = () => {
+    stopNavigation();
+    setIsNavigating(true);
+    // Alternatives on the map would compete with the route being walked
+    closeRouteSweep();
+    closeLoops();
+
+    if (!("geolocation" in navigator)) {
+      setNavigationError("This browser can't share your location.");
+      return;
+    }
+
+    console.log("🚶 Starting navigation");
+    navigationWatchRef.current = navigator.geolocation.watchPosition(
+      (position) => {
+        setNavigationError(null);
+        setNavigationPosition({
+          point: [position.coords.longitude, position.coords.latitude],
+          accuracyM: position.coords.accuracy,
+          heading: Number.isFinite(position.coords.heading) ? position.coords.heading : null,
+        });
+      },
+      (error) => {
+        console.warn("⚠️ Geolocation error:", error);
+        setNavigationError(describeGeolocationError(error));
+      },
+      { enableHighAccuracy: true, maximumAge: 5000, timeout: 20000 }
+    );
+  };
+
+  // Recalculate from where the walker is now, keeping the destination and the stops still ahead.
+  // The stops are updated once the new start is accepted, so that update queues the calculation.
+  const rerouteFromCurrentPosition = async () => {
+    if (!navigationPosition || !routes) return;
+
+    const [lng, lat] = navigationPosition.point;
+    const line = RoutingService.getRouteCoordinates(routes.safe.route_geojson);
+    const walkedM = navigationProgress?.distanceAlongM ?? 0;
+    const isAhead = (stop: TripPoint) => (getRouteProgress([stop.lng, stop.lat], line)?.distanceAlongM ?? Infinity) > walkedM;
+
+    console.log("🔀 Rerouting from current position", { lng, lat });
+    if (!(await handleSetLocation(lng, lat, "start"))) return;
+    pendingCalculationRef.current = {};
+    setWaypoints((current) => current.filter(isAhead));
+  };
+
+  // calculateRoutes is rebuilt with each new point, so run it once both ends are in place
+  useEffect(() => {
+    const pending = pendingCalculationRef.current;
+    if (!pending || !startPoint || !destinationPoint) return;
+    pendingCalculationRef.current = null;
+    calculateRoutes().then(() => {
+      if (pending.sweepCrimeWeight !== undefined) exploreRouteSweep(pending.sweepCrimeWeight);
+    });
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [calculateRoutes]);
+
+  // Reopen a shared trip once the map can take markers. Stops go in first so they are
+  // in state by the time the destination completes the trip and triggers the calculation.
+  useEffect(() => {
+    if (isLoading || !initialTrip || hasRestoredTripRef.current) return;
+    hasRestoredTripRef.current = true;
+
+    (async () => {
+      console.log("🔗 Restoring shared trip", initialTrip);
+      setRoutingPreferences((current) => ({ ...current, ...initialTrip.preferences }));
+      if (initialTrip.departureTime) setDepartureTime(initialTrip.departureTime);
+
+      for (const waypoint of initialTrip.waypoints) {
+        await handleSetLocation(waypoint.lng, waypoint.lat, "waypoint");
+      }
+      if (initialTrip.routeLine) {
+        setImportedRoute({ name: "Shared route", coordinates: initialTrip.routeLine });
+      }
+      // A refused end leaves the trip incomplete; don't let a later manual point start it
+      pendingCalculationRef.current = { sweepCrimeWeight: initialTrip.sweepCrimeWeight };
+      const isPlaced =
+        (await handleSetLocation(initialTrip.start.lng, initialTrip.start.lat, "start")) &&
+        (await handleSetLocation(initialTrip.destination.lng, initialTrip.destination.lat, "destination"));
+      if (!isPlaced) pendingCalculationRef.current = null;
+    })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isLoading]);
+
+  // Link to the trip as currently planned, including the picked trade-off route
+  const shareUrl = useMemo(() => {
+    if (!routes || !startPoint || !destinationPoint) return null;
+
+    const selectedSweepRoute =
+      routeSweep && selectedSweepIndex !== null ? routeSweep.routes[selectedSweepIndex] : null;
+    return buildTripUrl(
+      {
+        start: startPoint,
+        destination: destinationPoint,
+        waypoints,
+        preferences: routingPreferences,
+        departureTime: departureTime ?? undefined,
+        sweepCrimeWeight: selectedSweepRoute?.crimeWeights[0],
+        routeLine: importedRoute?.coordinates,
+      },
+      window.location.href
+    );
+  }, [routes, startPoint, destinationPoint, waypoints, routingPreferences, departureTime, routeSweep, selectedSweepIndex, importedRoute]);
+
+  // Keep the walker's marker and the camera on their latest position
+  useEffect(() => {
+    if (!map.current || !navigationPosition) return;
+
+    const { point, heading } = navigationPosition;
+    if (userMarkerRef.current) {
+      userMarkerRef.current.setLngLat(point);
+    } else {
+      const el = document.createElement("div");
+      el.className = "user-location-marker";
+      el.style.cssText = `
+        background-color: #2563eb;
+        width: 18px;
+        height: 18px;
+        border-radius: 50%;
+        border: 3px solid white;
+        box-shadow: 0 0 0 6px rgba(37,99,235,0.25), 0 2px 6px rgba(0,0,0,0.3);
+      `;
+      userMarkerRef.current = new mapboxgl.Marker(el).setLngLat(point).addTo(map.current);
+    }
+
+    map.current.easeTo({
+      center: point,
+      zoom: Math.max(map.current.getZoom(), 17),
+      ...(heading !== null && { bearing: heading }),
+      duration: 1000,
+    });
+  }, [navigationPosition]);
+
+  useEffect(() => {
+    return () => {
+      if (navigationWatchRef.current !== null) {
+        navigator.geolocation.clearWatch(navigationWatchRef.current);
+      }
+    };
+  }, []);
+
+  const navigationProgress = useMemo(
+    () =>
+      routes && navigationPosition
+        ? getRouteProgress(navigationPosition.point, RoutingService.getRouteCoordinates(routes.safe.route_geojson))
+        : null,
+    [routes, navigationPosition]
+  );
+  const isOffRoute =
+    !!navigationProgress &&
+    !!navigationPosition &&
+    navigationProgress.distanceFromRouteM > Math.max(OFF_ROUTE_DISTANCE_M, navigationPosition.accuracyM);
+  const hasArrived = !!navigationProgress && !isOffRoute && navigationProgress.remainingM <= ARRIVAL_DISTANCE_M;
+
+  useEffect(() => {
+    if (routeRisk) {
+      showRouteRiskOnMap(routeRisk);
+    } else {
+      removeRouteRiskFromMap();
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routeRisk]);
+
+  // The regular shortest/safe pair is hidden while sweep or loop alternatives are shown
+  useEffect(() => {
+    setComparisonRoutesVisible(!routeSweep && !loops);
+  }, [routeSweep, loops]);
+
+  // Persist preference changes
+  const handlePreferencesChange = (preferences: RoutingPreferences) => {
+    setRoutingPreferences(preferences);
+    preferencesService.saveRoutingPreferences(preferences);
+  };
+
+  const handleDisplaySettingsChange = (settings: DisplaySettings) => {
+    setDisplaySettings(settings);
+    preferencesService.saveDisplaySettings(settings);
+  };
+
+  // Re-run the calculation when preferences or departure time change while routes are shown.
+  // Debounced so dragging a slider doesn't fire a request per step.
+  useEffect(() => {
+    const replayed = replayedParametersRef.current;
+    replayedParametersRef.current = null;
+    if (!routes) return;
+    if (replayed?.preferences === routingPreferences && replayed.departureTime === departureTime) return;
+
+    const timeout = setTimeout(() => {
+      calculateRoutes();
+    }, 400);
+    return () => clearTimeout(timeout);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [routingPreferences, departureTime]);
+
+  // Show only incidents near the departure hour and weekday on the crime layers
+  const applyCrimeTimeFilter = (time: Date | null) => {
+    if (!map.current) return;
+
+    const timeFilter = time ? buildCrimeTimeFilter(time) : null;
+    if (map.current.getLayer("assault-heatmap-3312730771-3b869h")) {
+      map.current.setFilter(
+        "assault-heatmap-3312730771-3b869h",
+        timeFilter ? ["all", CRIME_HEATMAP_BASE_FILTER, timeFilter] : CRIME_HEATMAP_BASE_FILTER
+      );
+    }
+    if (map.current.getLayer("assault-circles-3312730771-3b869h")) {
+      map.current.setFilter("assault-circles-3312730771-3b869h", timeFilter);
+    }
+  };
+
+  useEffect(() => {
+    departureTimeRef.current = departureTime;
+    applyCrimeTimeFilter(departureTime);
+  }, [departureTime]);
 
   // Add route layers to the map
   const addRoutesToMap = (routeData: ProcessedRoutes) => {
@@ -615,7 +1680,7 @@ export default function MapboxMap() {
         console.log("📍 Adding shortest route to map");
         map.current.addSource("shortest-route", {
           type: "geojson",
-          data: routeData.shortest.route_geojson as GeoJSON.FeatureCollection,
+          data: RoutingService.simplifyRouteGeoJSON(routeData.shortest.route_geojson, RENDER_TOLERANCE_M),
         });
 
         map.current.addLayer({
@@ -627,7 +1692,7 @@ export default function MapboxMap() {
             "line-cap": "round",
           },
           paint: {
-            "line-color": "#3B82F6", // Blue
+            "line-color": SHORTEST_ROUTE_COLOR,
             "line-width": 6,
             "line-opacity": 0.8,
           },
@@ -660,7 +1725,7 @@ export default function MapboxMap() {
         console.log("🛡️ Adding safe route to map");
         map.current.addSource("safe-route", {
           type: "geojson",
-          data: routeData.safe.route_geojson as GeoJSON.FeatureCollection,
+          data: RoutingService.simplifyRouteGeoJSON(routeData.safe.route_geojson, RENDER_TOLERANCE_M),
         });
 
         map.current.addLayer({
@@ -672,7 +1737,7 @@ export default function MapboxMap() {
             "line-cap": "round",
           },
           paint: {
-            "line-color": "#10B981", // Green
+            "line-color": SAFE_ROUTE_COLOR,
             "line-width": 6,
             "line-opacity": 0.8,
           },
@@ -701,87 +1766,326 @@ export default function MapboxMap() {
       }
 
       // Fit map to show both routes by getting coordinates from the GeoJSON
-      const allCoordinates: number[][] = [];
+      fitMapToCoordinates([
+        ...RoutingService.getRouteCoordinates(routeData.shortest.route_geojson),
+        ...RoutingService.getRouteCoordinates(routeData.safe.route_geojson),
+      ]);
 
-      if (
-        routeData.shortest.route_geojson &&
-        "features" in routeData.shortest.route_geojson
-      ) {
-        const shortestFeatures = routeData.shortest.route_geojson.features;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        shortestFeatures.forEach((feature: any) => {
-          if (feature.geometry.type === "LineString") {
-            allCoordinates.push(...feature.geometry.coordinates);
-          }
-        });
+      console.log("✅ Routes successfully added to map");
+    } catch (error) {
+      console.error("❌ Error adding routes to map:", error);
+    }
+  };
+
+  // Remove route layers from the map
+  const removeRoutesFromMap = () => {
+    if (!map.current) return;
+
+    const sourcesToRemove = ["shortest-route", "safe-route", "route-risk"];
+
+    COMPARISON_ROUTE_LAYERS.forEach((layerId) => {
+      if (map.current!.getLayer(layerId)) {
+        map.current!.removeLayer(layerId);
       }
+    });
 
-      if (
-        routeData.safe.route_geojson &&
-        "features" in routeData.safe.route_geojson
-      ) {
-        const safeFeatures = routeData.safe.route_geojson.features;
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        safeFeatures.forEach((feature: any) => {
-          if (feature.geometry.type === "LineString") {
-            allCoordinates.push(...feature.geometry.coordinates);
-          }
-        });
+    sourcesToRemove.forEach((sourceId) => {
+      if (map.current!.getSource(sourceId)) {
+        map.current!.removeSource(sourceId);
       }
+    });
+  };
 
-      if (allCoordinates.length > 0) {
-        const bounds = new mapboxgl.LngLatBounds();
-        allCoordinates.forEach((coord) =>
-          bounds.extend(coord as [number, number])
-        );
-        const isMobile = window.innerWidth <= 768; // Adjust based on your breakpoint
-        // Use larger padding for mobile to avoid clipping
-        const padding = isMobile ? 150 : 100; // Adjust padding based on device
+  // Colour each stretch of both routes by risk, over the plain lines so their outlines
+  // still show which route is which
+  const showRouteRiskOnMap = (risk: { safe: RiskSegment[]; shortest: RiskSegment[] }) => {
+    if (!map.current) return;
+
+    const toFeatures = (route: "safe" | "shortest", segments: RiskSegment[]) =>
+      segments.map((segment): GeoJSON.Feature<GeoJSON.LineString, RouteRiskProperties> => ({
+        type: "Feature",
+        geometry: { type: "LineString", coordinates: segment.coordinates },
+        properties: {
+          route,
+          incidents: segment.incidents,
+          lengthM: segment.lengthM,
+          level: segment.level,
+        },
+      }));
+    const data: GeoJSON.FeatureCollection = {
+      type: "FeatureCollection",
+      // Safe route drawn last so it is on top where the two overlap
+      features: [...toFeatures("shortest", risk.shortest), ...toFeatures("safe", risk.safe)],
+    };
+
+    try {
+      const source = map.current.getSource("route-risk") as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(data);
+        return;
+      }
+
+      map.current.addSource("route-risk", { type: "geojson", data });
+      map.current.addLayer({
+        id: "route-risk-line",
+        type: "line",
+        source: "route-risk",
+        layout: {
+          "line-join": "round",
+          "line-cap": "round",
+          visibility: routeSweep || loops ? "none" : "visible",
+        },
+        paint: {
+          "line-color": [
+            "match",
+            ["get", "level"],
+            ...Object.entries(RISK_COLORS).flat(),
+            SAFE_ROUTE_COLOR,
+          ] as mapboxgl.ExpressionSpecification,
+          "line-width": 4,
+        },
+      });
+    } catch (error) {
+      console.error("❌ Error adding route risk to map:", error);
+    }
+  };
+
+  const removeRouteRiskFromMap = () => {
+    if (!map.current) return;
+
+    if (map.current.getLayer("route-risk-line")) {
+      map.current.removeLayer("route-risk-line");
+    }
+    if (map.current.getSource("route-risk")) {
+      map.current.removeSource("route-risk");
+    }
+  };
+
+  // Draw a set of alternative routes from one source, the selected one wider and on top
+  const showRouteOptionsOnMap = (
+    sourceId: string,
+    options: { geojson: RouteGeoJSON; color: string }[],
+    selectedIndex: number | null
+  ) => {
+    if (!map.current) return;
+
+    const data: GeoJSON.FeatureCollection = {
+      type: "FeatureCollection",
+      features: options.map(({ geojson, color }, index) => ({
+        type: "Feature",
+        geometry: {
+          type: "LineString",
+          coordinates: RoutingService.getRouteCoordinates(geojson),
+        },
+        properties: {
+          color,
+          selected: index === selectedIndex,
+        },
+      })),
+    };
 
-        map.current.fitBounds(bounds, {
-          padding: padding,
-          duration: 2000,
+    try {
+      const source = map.current.getSource(sourceId) as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(data);
+      } else {
+        map.current.addSource(sourceId, { type: "geojson", data });
+        map.current.addLayer({
+          id: `${sourceId}-line`,
+          type: "line",
+          source: sourceId,
+          layout: {
+            "line-join": "round",
+            "line-cap": "round",
+            "line-sort-key": ["case", ["get", "selected"], 1, 0],
+          },
+          paint: {
+            "line-color": ["get", "color"],
+            "line-width": ["case", ["get", "selected"], 7, 4],
+            "line-opacity": ["case", ["get", "selected"], 0.95, 0.45],
+          },
         });
       }
+    } catch (error) {
+      console.error(`❌ Error adding ${sourceId} to map:`, error);
+    }
+  };
 
-      console.log("✅ Routes successfully added to map");
+  const removeRouteOptionsFromMap = (sourceId: string) => {
+    if (!map.current) return;
+
+    if (map.current.getLayer(`${sourceId}-line`)) {
+      map.current.removeLayer(`${sourceId}-line`);
+    }
+    if (map.current.getSource(sourceId)) {
+      map.current.removeSource(sourceId);
+    }
+  };
+
+  const setComparisonRoutesVisible = (visible: boolean) => {
+    if (!map.current) return;
+
+    COMPARISON_ROUTE_LAYERS.forEach((layerId) => {
+      if (map.current!.getLayer(layerId)) {
+        map.current!.setLayoutProperty(layerId, "visibility", visible ? "visible" : "none");
+      }
+    });
+  };
+
+  // The imported route as a dashed line over everything else, so it stays visible where it
+  // runs along a generated route
+  const showImportedRouteOnMap = (imported: ImportedRoute) => {
+    if (!map.current) return;
+
+    const data: GeoJSON.Feature<GeoJSON.LineString> = {
+      type: "Feature",
+      geometry: { type: "LineString", coordinates: imported.coordinates },
+      properties: { name: imported.name },
+    };
+
+    try {
+      const source = map.current.getSource("imported-route") as mapboxgl.GeoJSONSource | undefined;
+      if (source) {
+        source.setData(data);
+        return;
+      }
+
+      map.current.addSource("imported-route", { type: "geojson", data });
+      map.current.addLayer({
+        id: "imported-route-line",
+        type: "line",
+        source: "imported-route",
+        layout: {
+          "line-join": "round",
+          "line-cap": "round",
+        },
+        paint: {
+          "line-color": IMPORTED_ROUTE_COLOR,
+          "line-width": 5,
+          "line-dasharray": [1, 1.5],
+        },
+      });
     } catch (error) {
-      console.error("❌ Error adding routes to map:", error);
+      console.error("❌ Error adding imported route to map:", error);
     }
   };
 
-  // Remove route layers from the map
-  const removeRoutesFromMap = () => {
+  const removeImportedRouteFromMap = () => {
+    if (!map.current) return;
+
+    if (map.current.getLayer("imported-route-line")) {
+      map.current.removeLayer("imported-route-line");
+    }
+    if (map.current.getSource("imported-route")) {
+      map.current.removeSource("imported-route");
+    }
+  };
+
+  // Safe reach as filled areas, with the unconstrained isochrones as dashed outlines.
+  // Drawn beneath the route lines so those stay readable.
+  const showSafeReachOnMap = (reach: SafeReach) => {
     if (!map.current) return;
 
-    const layersToRemove = [
-      "shortest-route-outline",
-      "shortest-route-line",
-      "safe-route-outline",
-      "safe-route-line",
+    const minuteColor: mapboxgl.ExpressionSpecification = [
+      "match",
+      ["get", "minutes"],
+      ...Object.entries(REACH_COLORS).flatMap(([minutes, color]) => [Number(minutes), color]),
+      "#64748B",
+    ];
+    const contourColor: mapboxgl.ExpressionSpecification = [
+      "match",
+      ["get", "contour"],
+      ...Object.entries(REACH_COLORS).flatMap(([minutes, color]) => [Number(minutes), color]),
+      "#64748B",
     ];
+    const beforeId = COMPARISON_ROUTE_LAYERS.find((layerId) => map.current!.getLayer(layerId));
 
-    const sourcesToRemove = ["shortest-route", "safe-route"];
+    try {
+      const safeSource = map.current.getSource("safe-reach") as mapboxgl.GeoJSONSource | undefined;
+      const walkableSource = map.current.getSource("walkable-isochrones") as mapboxgl.GeoJSONSource | undefined;
 
-    layersToRemove.forEach((layerId) => {
+      if (safeSource && walkableSource) {
+        safeSource.setData(reach.safe);
+        walkableSource.setData(reach.walkable);
+        return;
+      }
+
+      map.current.addSource("safe-reach", { type: "geojson", data: reach.safe });
+      map.current.addSource("walkable-isochrones", { type: "geojson", data: reach.walkable });
+
+      map.current.addLayer(
+        {
+          id: "safe-reach-fill",
+          type: "fill",
+          source: "safe-reach",
+          paint: {
+            "fill-color": minuteColor,
+            "fill-opacity": 0.3,
+            "fill-antialias": false,
+          },
+        },
+        beforeId
+      );
+      map.current.addLayer(
+        {
+          id: "walkable-isochrones-line",
+          type: "line",
+          source: "walkable-isochrones",
+          paint: {
+            "line-color": contourColor,
+            "line-width": 2,
+            "line-dasharray": [2, 2],
+          },
+        },
+        beforeId
+      );
+    } catch (error) {
+      console.error("❌ Error adding safe reach to map:", error);
+    }
+  };
+
+  const removeSafeReachFromMap = () => {
+    if (!map.current) return;
+
+    ["safe-reach-fill", "walkable-isochrones-line"].forEach((layerId) => {
       if (map.current!.getLayer(layerId)) {
         map.current!.removeLayer(layerId);
       }
     });
-
-    sourcesToRemove.forEach((sourceId) => {
+    ["safe-reach", "walkable-isochrones"].forEach((sourceId) => {
       if (map.current!.getSource(sourceId)) {
         map.current!.removeSource(sourceId);
       }
     });
   };
 
+  // Zoom to fit a set of coordinates, leaving room for the sidebar on mobile
+  const fitMapToCoordinates = (coordinates: LngLat[]) => {
+    if (!map.current || coordinates.length === 0) return;
+
+    const bounds = new mapboxgl.LngLatBounds();
+    coordinates.forEach((coord) => bounds.extend(coord));
+    const isMobile = window.innerWidth <= 768; // Adjust based on your breakpoint
+    // Use larger padding for mobile to avoid clipping
+    const padding = isMobile ? 150 : 100; // Adjust padding based on device
+
+    map.current.fitBounds(bounds, {
+      padding: padding,
+      duration: 2000,
+    });
+  };
+
   // Only clear routes if points are missing
   useEffect(() => {
     if (!(startPoint && destinationPoint)) {
+      cancelRouteCalculation();
+      closeRouteSweep();
+      stopNavigation();
+      setIsLoadingRoutes(false);
       setRoutes(null);
       removeRoutesFromMap();
     }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [startPoint, destinationPoint]);
 
   const add3DBuildings = () => {
@@ -810,7 +2114,7 @@ export default function MapboxMap() {
       // Add your tileset from the console link you provided
       map.current.addSource("crime-data", {
         type: "vector",
-        url: "mapbox://harmansingh2003.9x73mbtr",
+        url: config.tilesets.crime.url,
       });
 
       console.log("✅ Step 2 Complete: Crime data source added!");
@@ -842,8 +2146,8 @@ export default function MapboxMap() {
           id: "assault-heatmap-3312730771-3b869h",
           type: "heatmap",
           source: "crime-data",
-          "source-layer": "Assault_Open_Data_-3312730771-3b869h",
-          filter: ["match", ["geometry-type"], ["Point"], true, false],
+          "source-layer": config.tilesets.crime.sourceLayer,
+          filter: CRIME_HEATMAP_BASE_FILTER,
           paint: {
             "heatmap-color": [
               "step",
@@ -907,7 +2211,7 @@ export default function MapboxMap() {
           id: "assault-circles-3312730771-3b869h",
           type: "circle",
           source: "crime-data",
-          "source-layer": "Assault_Open_Data_-3312730771-3b869h",
+          "source-layer": config.tilesets.crime.sourceLayer,
           paint: {
             "circle-color": "hsl(0, 93%, 53%)",
             "circle-blur": [
@@ -932,6 +2236,9 @@ export default function MapboxMap() {
         firstFillExtrusionId
       );
 
+      // A departure time may have been picked before the style finished loading
+      applyCrimeTimeFilter(departureTimeRef.current);
+
       console.log(
         "✅ Step 3 Complete: Heatmap + Circle layers added with 3D occlusion!"
       );
@@ -944,20 +2251,8 @@ export default function MapboxMap() {
 
   // Reverse geocoding function using Mapbox Geocoding API
   const reverseGeocode = async (lng: number, lat: number): Promise<string> => {
-    try {
-      const response = await fetch(
-        `https://api.mapbox.com/geocoding/v5/mapbox.places/${lng},${lat}.json?access_token=${mapboxgl.accessToken}`
-      );
-      const data = await response.json();
-
-      if (data.features && data.features.length > 0) {
-        return data.features[0].place_name;
-      }
-      return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-    } catch (error) {
-      console.error("Reverse geocoding error:", error);
-      return `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
-    }
+    const placeName = await geocodingService.reverseGeocode(lng, lat);
+    return placeName ?? `${lat.toFixed(6)}, ${lng.toFixed(6)}`;
   };
 
   return (
@@ -968,8 +2263,26 @@ export default function MapboxMap() {
           {popupMessage}
         </div>
       )}
-      {/* Map Section - Full width background */}
-      <div className="absolute inset-0">
+      {/* Map Section - Full width background; GPX/GeoJSON files can be dropped on it */}
+      <div
+        className="absolute inset-0"
+        onDragOver={(e) => {
+          if (!e.dataTransfer.types.includes("Files")) return;
+          e.preventDefault();
+          setIsDraggingFile(true);
+        }}
+        onDragLeave={(e) => {
+          // Ignore leaving into a child element
+          if (!e.currentTarget.contains(e.relatedTarget as Node | null)) setIsDraggingFile(false);
+        }}
+        onDrop={handleFileDrop}
+      >
+        {isDraggingFile && (
+          <div className="absolute inset-4 z-40 flex items-center justify-center rounded-2xl border-4 border-dashed border-fuchsia-400 bg-white/40 backdrop-blur-sm pointer-events-none">
+            <p className="text-lg font-semibold text-slate-800">Drop a GPX or GeoJSON file to score your route</p>
+          </div>
+        )}
+
         {/* Loading State */}
         {isLoading && (
           <div className="absolute inset-0 bg-gray-100 flex items-center justify-center z-50">
@@ -1012,21 +2325,102 @@ export default function MapboxMap() {
 
         {/* Map Container */}
         <div ref={mapContainer} className="w-full h-full" />
+
+        {isNavigating && routes && (
+          <NavigationPanel
+            nextStep={directions && navigationProgress ? getNextStep(directions, navigationProgress.distanceAlongM) : null}
+            remainingM={navigationProgress?.remainingM ?? null}
+            remainingS={
+              navigationProgress && routes.safe.route_stats.total_distance_m > 0
+                ? (routes.safe.route_stats.total_time_s * navigationProgress.remainingM) /
+                  routes.safe.route_stats.total_distance_m
+                : null
+            }
+            isOffRoute={isOffRoute}
+            hasArrived={hasArrived}
+            isRerouting={isLoadingRoutes}
+            error={navigationError}
+            onReroute={rerouteFromCurrentPosition}
+            onStop={stopNavigation}
+            formatter={formatter}
+          />
+        )}
+
+        {!isLoading && !mapError && (
+          <MapLayerControl
+            isCrimeLayerVisible={isCrimeLayerVisible}
+            onToggleCrimeLayer={toggleCrimeLayer}
+            isSafeReachVisible={isSafeReachVisible}
+            onToggleSafeReach={() => setIsSafeReachVisible(!isSafeReachVisible)}
+            hasStart={!!startPoint}
+            maxIncidents={maxReachIncidents}
+            onMaxIncidentsChange={setMaxReachIncidents}
+            safeReach={safeReach}
+            isCalculatingReach={isCalculatingReach}
+            reachError={reachError}
+            isRouteRiskShown={!!routeRisk && !routeSweep && !loops}
+            hasRoutes={!!routes && !routeSweep && !loops}
+            formatter={formatter}
+          />
+        )}
       </div>
 
       {/* Sidebar - Mobile layout will be handled within the Sidebar component */}
       <Sidebar
         startPoint={startPoint}
         destinationPoint={destinationPoint}
+        waypoints={waypoints}
         startInputValue={startInputValue}
         destinationInputValue={destinationInputValue}
         routes={routes}
         isLoadingRoutes={isLoadingRoutes}
         routeError={routeError}
+        routingPreferences={routingPreferences}
         onLocationSelect={handleLocationSelect}
         onInputChange={handleInputChange}
         onClear={clearPoints}
         onCalculate={calculateRoutes}
+        routeSweep={routeSweep}
+        isSweeping={isSweeping}
+        sweepError={sweepError}
+        selectedSweepIndex={selectedSweepIndex}
+        onExploreSweep={() => exploreRouteSweep()}
+        onSelectSweepRoute={setSelectedSweepIndex}
+        onCloseSweep={closeRouteSweep}
+        loops={loops}
+        isFindingLoops={isFindingLoops}
+        loopError={loopError}
+        selectedLoopIndex={selectedLoopIndex}
+        onFindLoops={findLoops}
+        onSelectLoop={setSelectedLoopIndex}
+        onCloseLoops={closeLoops}
+        onPreferencesChange={handlePreferencesChange}
+        formatter={formatter}
+        onDisplaySettingsChange={handleDisplaySettingsChange}
+        directions={directions}
+        onSelectDirectionStep={flyToDirectionStep}
+        isNavigating={isNavigating}
+        onStartNavigation={startNavigation}
+        shareUrl={shareUrl}
+        importedRouteName={importedRoute?.name ?? null}
+        importComparison={importComparison}
+        importScoringError={importScoringError}
+        importError={importError}
+        onImportRoute={importRouteFile}
+        onClearImportedRoute={clearImportedRoute}
+        savedPlaces={savedPlaces}
+        recentPlaces={recentPlaces}
+        onSelectPlace={selectQuickPlace}
+        onSavePlace={handleSavePlace}
+        onRemoveSavedPlace={handleRemoveSavedPlace}
+        tripHistory={tripHistory}
+        onRerunTrip={rerunTrip}
+        onReplayTrip={replayTrip}
+        onRemoveTrip={handleRemoveTrip}
+        departureTime={departureTime}
+        onDepartureTimeChange={setDepartureTime}
+        onRemoveWaypoint={handleRemoveWaypoint}
+        onMoveWaypoint={handleMoveWaypoint}
       />
     </div>
   );
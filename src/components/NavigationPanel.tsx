@@ -0,0 +1,89 @@
+import React from 'react';
+import { Flag, LocateFixed, RefreshCw, TriangleAlert, X } from 'lucide-react';
+import { DirectionStep, describeStep } from '../utils/directions';
+import Formatter from '../utils/formatting';
+
+interface NavigationPanelProps {
+  nextStep: { step: DirectionStep; distanceM: number } | null;
+  remainingM: number | null; // null until the first GPS fix
+  remainingS: number | null;
+  isOffRoute: boolean;
+  hasArrived: boolean;
+  isRerouting: boolean;
+  error: string | null;
+  onReroute: () => void;
+  onStop: () => void;
+  formatter: Formatter;
+}
+
+export default function NavigationPanel({
+  nextStep,
+  remainingM,
+  remainingS,
+  isOffRoute,
+  hasArrived,
+  isRerouting,
+  error,
+  onReroute,
+  onStop,
+  formatter
+}: NavigationPanelProps) {
+  return (
+    <div className="absolute top-3 left-1/2 -translate-x-1/2 z-30 w-[min(92vw,24rem)] bg-white/95 backdrop-blur-xl border border-slate-300 rounded-xl shadow-lg p-3 text-sm text-slate-700">
+      <div className="flex items-start gap-3">
+        <div className="flex-1 min-w-0">
+          {error ? (
+            <p className="text-red-700">{error}</p>
+          ) : hasArrived ? (
+            <p className="flex items-center gap-2 font-bold text-emerald-700">
+              <Flag className="w-4 h-4" />
+              You have arrived
+            </p>
+          ) : remainingM === null ? (
+            <p className="flex items-center gap-2 text-slate-600">
+              <LocateFixed className="w-4 h-4 animate-pulse" />
+              Finding your location...
+            </p>
+          ) : (
+            <>
+              {nextStep && (
+                <p className="font-bold text-slate-800 truncate">
+                  {describeStep(nextStep.step)}
+                  {nextStep.distanceM > 0 && (
+                    <span className="font-normal text-slate-500"> in {formatter.distance(nextStep.distanceM)}</span>
+                  )}
+                </p>
+              )}
+              <p className="text-slate-600">
+                {formatter.distance(remainingM)} to go
+                {remainingS !== null && ` · ${formatter.duration(remainingS)} · ${formatter.arrival(remainingS)}`}
+              </p>
+            </>
+          )}
+        </div>
+        <button
+          onClick={onStop}
+          className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-slate-100 transition"
+          aria-label="Stop navigation"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {isOffRoute && !hasArrived && !error && (
+        <div className="mt-2 flex items-center gap-2 bg-amber-500/10 border border-amber-500/40 rounded-lg px-2 py-1.5">
+          <TriangleAlert className="w-4 h-4 flex-shrink-0 text-amber-600" />
+          <span className="flex-1 text-amber-800 text-xs">You&apos;ve left the route.</span>
+          <button
+            onClick={onReroute}
+            disabled={isRerouting}
+            className="flex items-center gap-1 rounded-md bg-amber-500 text-white text-xs font-semibold px-2 py-1 hover:bg-amber-600 transition disabled:opacity-60"
+          >
+            <RefreshCw className={`w-3 h-3 ${isRerouting ? 'animate-spin' : ''}`} />
+            {isRerouting ? 'Rerouting...' : 'Reroute from here'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,29 +1,16 @@
 import React from 'react';
 import Image from 'next/image';
 import { ExternalLink } from 'lucide-react';
+import RoutingService, { RouteGeoJSON, LngLat } from '../services/routingService';
+import { selectKeyPoints } from '../utils/geometry';
 
 interface OpenRouteInMapsButtonProps {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  geojson: any;
-  routeType?: 'safe' | 'shortest';
+  geojson: RouteGeoJSON;
+  routeType?: 'safe' | 'shortest' | 'loop';
 }
 
 const OpenRouteInMapsButton = ({ geojson, routeType = 'safe' }: OpenRouteInMapsButtonProps) => {
-  // Handle both GeoJSON Feature and FeatureCollection formats
-  let coordinates: number[][] = [];
-  
-  if (geojson?.type === 'Feature' && geojson?.geometry?.type === 'LineString') {
-    coordinates = geojson.geometry.coordinates;
-  } else if (geojson?.type === 'FeatureCollection' && geojson?.features?.length > 0) {
-    // Find the first LineString feature
-    const lineStringFeature = geojson.features.find(
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      (feature: any) => feature.geometry?.type === 'LineString'
-    );
-    if (lineStringFeature) {
-      coordinates = lineStringFeature.geometry.coordinates;
-    }
-  }
+  const coordinates = RoutingService.getRouteCoordinates(geojson);
 
   // Need at least a start and end point
   if (coordinates.length < 2) {
@@ -32,34 +19,22 @@ const OpenRouteInMapsButton = ({ geojson, routeType = 'safe' }: OpenRouteInMapsB
   }
 
   // GeoJSON is [longitude, latitude], Google Maps URL is "latitude,longitude"
-  const formatCoord = (coord: number[]) => `${coord[1]},${coord[0]}`;
+  const formatCoord = (coord: LngLat) => `${coord[1]},${coord[0]}`;
 
   const origin = formatCoord(coordinates[0]);
   const destination = formatCoord(coordinates[coordinates.length - 1]);
 
-  // Use intermediate points as waypoints, but sample them to avoid URL length limits
+  // Pass the points where the route bends most as waypoints so Google follows the same streets.
   // Google Maps has a limit of ~2000 characters for URLs and 25 waypoints max
   const maxWaypoints = 8; // Conservative limit
-  const waypointCoords = coordinates.slice(1, coordinates.length - 1);
-  
-  let sampledWaypoints: number[][] = [];
-  if (waypointCoords.length <= maxWaypoints) {
-    sampledWaypoints = waypointCoords;
-  } else {
-    // Sample waypoints evenly across the route
-    const step = Math.floor(waypointCoords.length / maxWaypoints);
-    for (let i = 0; i < waypointCoords.length; i += step) {
-      sampledWaypoints.push(waypointCoords[i]);
-      if (sampledWaypoints.length >= maxWaypoints) break;
-    }
-  }
+  const sampledWaypoints = selectKeyPoints(coordinates, maxWaypoints);
 
   const waypoints = sampledWaypoints.map(formatCoord).join('|');
 
   // Construct the final URL
   const googleMapsUrl = `https://www.google.com/maps/dir/?api=1&origin=${origin}&destination=${destination}${waypoints ? `&waypoints=${waypoints}` : ''}&travelmode=walking`;
 
-  const routeLabel = routeType === 'safe' ? 'Safe Route' : 'Fastest Route';
+  const routeLabel = { safe: 'Safe Route', shortest: 'Fastest Route', loop: 'Loop' }[routeType];
 
   return (
     <a
@@ -0,0 +1,33 @@
+import React from 'react';
+import { RiskLevel, RISK_LEVELS } from '../utils/routeRisk';
+import { RISK_COLORS } from '../utils/routeColors';
+import Formatter from '../utils/formatting';
+
+interface RouteRiskPopupProps {
+  route: 'safe' | 'shortest';
+  incidents: number;
+  lengthM: number;
+  radiusM: number;
+  level: RiskLevel;
+  formatter: Formatter;
+}
+
+// Rendered to an HTML string for a Mapbox popup, so it has no interactivity of its own
+export default function RouteRiskPopup({ route, incidents, lengthM, radiusM, level, formatter }: RouteRiskPopupProps) {
+  const label = RISK_LEVELS.find((risk) => risk.level === level)?.label ?? '';
+
+  return (
+    <div className="min-w-[160px] text-slate-800 text-sm">
+      <div className="flex items-center gap-2 font-semibold">
+        <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: RISK_COLORS[level] }} />
+        {label}
+      </div>
+      <p className="mt-1">
+        {formatter.number(incidents)} incident{incidents === 1 ? '' : 's'} within {formatter.distance(radiusM)}
+      </p>
+      <p className="text-xs text-slate-500">
+        {formatter.distance(lengthM)} of the {route === 'safe' ? 'safest' : 'fastest'} route
+      </p>
+    </div>
+  );
+}
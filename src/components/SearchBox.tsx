@@ -2,6 +2,10 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import mapboxgl from 'mapbox-gl';
+import { ChevronUp, ChevronDown, Plus, X } from 'lucide-react';
+import PlacesService, { Place, SavedPlace, RecentPlace } from '../services/placesService';
+import PlaceIcon from './sidebar/PlaceIcon';
+import { shortAddress } from '../utils/formatting';
 
 interface SearchResult {
   id: string;
@@ -13,14 +17,21 @@ interface SearchResult {
   };
 }
 
+type SearchField = 'start' | 'destination' | 'waypoint';
+
 interface SearchBoxProps {
-  onLocationSelect: (location: { lng: number; lat: number; address: string }, type: 'start' | 'destination') => void;
+  onLocationSelect: (location: { lng: number; lat: number; address: string }, type: SearchField) => void;
   placeholder?: string;
   className?: string;
   startValue?: string;
   destinationValue?: string;
   onInputChange?: (value: string, type: 'start' | 'destination') => void;
   onClear?: () => void;
+  waypoints?: { address?: string }[];
+  onRemoveWaypoint?: (index: number) => void;
+  onMoveWaypoint?: (index: number, direction: -1 | 1) => void;
+  savedPlaces?: SavedPlace[]; // Offered, with recent places, while the focused field is empty
+  recentPlaces?: RecentPlace[];
 }
 
 export default function SearchBox({ 
@@ -32,17 +43,32 @@ export default function SearchBox({
   destinationValue = '',
   onInputChange,
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
-  onClear
+  onClear,
+  waypoints = [],
+  onRemoveWaypoint,
+  onMoveWaypoint,
+  savedPlaces = [],
+  recentPlaces = []
 }: SearchBoxProps) {
   const [startQuery, setStartQuery] = useState(startValue);
   const [destinationQuery, setDestinationQuery] = useState(destinationValue);
+  const [waypointQuery, setWaypointQuery] = useState('');
+  const [isAddingStop, setIsAddingStop] = useState(false);
   const [suggestions, setSuggestions] = useState<SearchResult[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [showSuggestions, setShowSuggestions] = useState(false);
-  const [activeField, setActiveField] = useState<'start' | 'destination' | null>(null);
+  const [activeField, setActiveField] = useState<SearchField | null>(null);
   const debounceRef = useRef<NodeJS.Timeout | null>(null);
   const searchContainerRef = useRef<HTMLDivElement>(null);
 
+  const activeQuery = activeField === 'start' ? startQuery : activeField === 'destination' ? destinationQuery : waypointQuery;
+  const placeOptions: { key: string; place: Place; name?: string }[] = [
+    ...savedPlaces.map((place) => ({ key: place.id, place, name: place.name })),
+    ...recentPlaces
+      .filter((recent) => !savedPlaces.some((saved) => PlacesService.isSamePlace(saved, recent)))
+      .map((place) => ({ key: place.usedAt, place }))
+  ];
+
   // Sync external values with local state
   useEffect(() => {
     setStartQuery(startValue);
@@ -120,17 +146,19 @@ export default function SearchBox({
   };
 
   // Handle input change with debouncing
-  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, type: 'start' | 'destination') => {
+  const handleInputChange = (e: React.ChangeEvent<HTMLInputElement>, type: SearchField) => {
     const value = e.target.value;
     
     if (type === 'start') {
       setStartQuery(value);
-    } else {
+    } else if (type === 'destination') {
       setDestinationQuery(value);
+    } else {
+      setWaypointQuery(value);
     }
 
-    // Notify parent of input change
-    if (onInputChange) {
+    // Notify parent of input change (stops are only kept once selected)
+    if (onInputChange && type !== 'waypoint') {
       onInputChange(value, type);
     }
 
@@ -213,6 +241,10 @@ export default function SearchBox({
     // Update the appropriate input field
     if (activeField === 'start') {
       setStartQuery(suggestion.name);
+    } else if (activeField === 'waypoint') {
+      // The stop joins the list below, so reset the add-stop field for the next one
+      setWaypointQuery('');
+      setIsAddingStop(false);
     } else {
       setDestinationQuery(suggestion.name);
     }
@@ -233,6 +265,23 @@ export default function SearchBox({
     setActiveField(null);
   };
 
+  // Saved and recent places already have coordinates, so no retrieve call is needed
+  const handlePlaceSelect = (place: Place) => {
+    const field = activeField || 'start';
+    if (field === 'start') {
+      setStartQuery(place.address);
+    } else if (field === 'waypoint') {
+      setWaypointQuery('');
+      setIsAddingStop(false);
+    } else {
+      setDestinationQuery(place.address);
+    }
+
+    onLocationSelect({ lng: place.lng, lat: place.lat, address: place.address }, field);
+    setShowSuggestions(false);
+    setActiveField(null);
+  };
+
   return (
     <div ref={searchContainerRef} className={`relative ${className}`}>
       {/* Integrated Container with Grey Border */}
@@ -289,6 +338,93 @@ export default function SearchBox({
             )}
           </div>
 
+          {/* Intermediate Stops */}
+          {waypoints.map((waypoint, index) => (
+            <div key={`${index}-${waypoint.address}`} className="relative border-b border-slate-300">
+              <div className="flex items-center px-5 py-3 gap-3">
+                <div className="flex-shrink-0 w-6 h-6 rounded-full bg-amber-500 text-white text-xs font-bold flex items-center justify-center">
+                  {index + 1}
+                </div>
+                <div className="flex-1 min-w-0 text-sm text-slate-800 truncate" title={waypoint.address}>
+                  {waypoint.address || 'Stop'}
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => onMoveWaypoint?.(index, -1)}
+                    disabled={index === 0}
+                    className="w-6 h-6 rounded-full hover:bg-slate-400/20 flex items-center justify-center transition-colors disabled:opacity-30"
+                    aria-label={`Move stop ${index + 1} earlier`}
+                  >
+                    <ChevronUp className="w-4 h-4 text-slate-600" />
+                  </button>
+                  <button
+                    onClick={() => onMoveWaypoint?.(index, 1)}
+                    disabled={index === waypoints.length - 1}
+                    className="w-6 h-6 rounded-full hover:bg-slate-400/20 flex items-center justify-center transition-colors disabled:opacity-30"
+                    aria-label={`Move stop ${index + 1} later`}
+                  >
+                    <ChevronDown className="w-4 h-4 text-slate-600" />
+                  </button>
+                  <button
+                    onClick={() => onRemoveWaypoint?.(index)}
+                    className="w-6 h-6 rounded-full bg-slate-400/20 hover:bg-slate-400/40 flex items-center justify-center transition-colors"
+                    aria-label={`Remove stop ${index + 1}`}
+                  >
+                    <X className="w-3 h-3 text-slate-600" />
+                  </button>
+                </div>
+              </div>
+            </div>
+          ))}
+
+          {/* Add Stop */}
+          <div className="relative border-b border-slate-300">
+            {isAddingStop ? (
+              <div className="flex items-center px-5 py-3">
+                <div className="flex-1 relative">
+                  <input
+                    type="text"
+                    value={waypointQuery}
+                    onChange={(e) => handleInputChange(e, 'waypoint')}
+                    placeholder="Add a stop"
+                    autoFocus
+                    className="w-full text-slate-800 placeholder-slate-500 bg-transparent border-none outline-none text-sm rounded transition-colors pr-8"
+                    onFocus={() => {
+                      setActiveField('waypoint');
+                      if (suggestions.length > 0 && waypointQuery.length >= 2) {
+                        setShowSuggestions(true);
+                      }
+                    }}
+                  />
+                  <button
+                    onClick={() => {
+                      setWaypointQuery('');
+                      setIsAddingStop(false);
+                    }}
+                    className="absolute right-0 top-1/2 transform -translate-y-1/2 w-6 h-6 rounded-full bg-slate-400/20 hover:bg-slate-400/40 flex items-center justify-center transition-colors"
+                    aria-label="Cancel adding stop"
+                  >
+                    <X className="w-3 h-3 text-slate-600" />
+                  </button>
+                </div>
+              </div>
+            ) : (
+              <button
+                onClick={() => setIsAddingStop(true)}
+                className="w-full flex items-center gap-2 px-5 py-2 text-sm text-slate-600 hover:bg-white/20 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add stop
+              </button>
+            )}
+            {/* Loading bar for stop field */}
+            {isLoading && activeField === 'waypoint' && (
+              <div className="absolute bottom-0 left-0 right-0 h-0.5 bg-slate-200 overflow-hidden">
+                <div className="h-full bg-amber-500 animate-pulse"></div>
+              </div>
+            )}
+          </div>
+
           {/* Destination Location */}
           <div className="relative">
             <div className="flex items-center px-5 py-4">
@@ -338,6 +474,31 @@ export default function SearchBox({
           </div>
         </div>
 
+        {/* Saved and recent places while the focused field is empty */}
+        {activeField && activeQuery === '' && !showSuggestions && placeOptions.length > 0 && (
+          <div className="border-t border-slate-300 bg-white/5 animate-in slide-in-from-top-2 duration-300">
+            <div className="max-h-60 md:max-h-80 overflow-y-auto sidebar-scroll">
+              {placeOptions.map(({ key, place, name }) => (
+                <div
+                  key={key}
+                  onClick={() => handlePlaceSelect(place)}
+                  className="px-5 py-3 hover:bg-white/30 cursor-pointer border-b border-slate-300/20 last:border-b-0 transition-all duration-200"
+                >
+                  <div className="flex items-center">
+                    <div className="flex-shrink-0 w-8 h-8 rounded-full bg-white/40 border border-slate-300/40 flex items-center justify-center mr-4 text-slate-700">
+                      <PlaceIcon name={name} />
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <div className="font-semibold text-slate-900 truncate">{name ?? shortAddress(place.address)}</div>
+                      <div className="text-sm text-slate-700 truncate">{name ? place.address : 'Recent'}</div>
+                    </div>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
         {/* Integrated Suggestions - Push Content Down */}
         {showSuggestions && suggestions.length > 0 && (
           <div className="border-t border-slate-300 bg-white/5 animate-in slide-in-from-top-2 duration-300">
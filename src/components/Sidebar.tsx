@@ -1,9 +1,31 @@
 import React from 'react';
-import { MapPin, Clock, Route, ShieldCheck, AlertTriangle, Zap, Navigation } from 'lucide-react';
+import { MapPin, Clock, Route, ShieldCheck, Zap, Navigation, Footprints } from 'lucide-react';
 import SearchBox from './SearchBox';
 import OpenRouteInMapsButton from './OpenRouteInMapsButton';
-import { ProcessedRoutes } from '../services/routingService';
+import RoutePreferencesPanel from './sidebar/RoutePreferencesPanel';
+import DepartureTimePicker from './sidebar/DepartureTimePicker';
+import RouteLegsList from './sidebar/RouteLegsList';
+import CachedResultBadge from './sidebar/CachedResultBadge';
+import DemoModeBanner from './sidebar/DemoModeBanner';
+import RouteErrorCard from './sidebar/RouteErrorCard';
+import ComparisonPanel from './sidebar/ComparisonPanel';
+import RouteSweepPanel from './sidebar/RouteSweepPanel';
+import LoopPanel from './sidebar/LoopPanel';
+import DirectionsList from './sidebar/DirectionsList';
+import ShareRouteButton from './sidebar/ShareRouteButton';
+import ExportRouteMenu from './sidebar/ExportRouteMenu';
+import ImportRoutePanel from './sidebar/ImportRoutePanel';
+import SavedPlacesBar from './sidebar/SavedPlacesBar';
+import TripHistoryPanel from './sidebar/TripHistoryPanel';
+import { LoopRoute, ProcessedRoutes, RouteSweep, RoutingPreferences } from '../services/routingService';
 import RoutingService from '../services/routingService';
+import { RoutingError } from '../services/routingErrors';
+import { Place, SavedPlace, RecentPlace } from '../services/placesService';
+import { TripHistoryEntry } from '../services/tripHistoryService';
+import Formatter, { DisplaySettings } from '../utils/formatting';
+import { DirectionStep } from '../utils/directions';
+import { ImportedRouteComparison } from '../utils/routeImport';
+import { SAFE_ROUTE_COLOR, SHORTEST_ROUTE_COLOR } from '../utils/routeColors';
 
 interface LocationPoint {
   lng: number;
@@ -14,30 +36,123 @@ interface LocationPoint {
 interface SidebarProps {
   startPoint: LocationPoint | null;
   destinationPoint: LocationPoint | null;
+  waypoints: LocationPoint[];
   startInputValue: string;
   destinationInputValue: string;
   routes: ProcessedRoutes | null;
   isLoadingRoutes: boolean;
-  routeError: string | null;
-  onLocationSelect: (location: { lng: number; lat: number; address: string }, type: 'start' | 'destination') => void;
+  routeError: RoutingError | null;
+  routingPreferences: RoutingPreferences;
+  onLocationSelect: (location: { lng: number; lat: number; address: string }, type: 'start' | 'destination' | 'waypoint') => void;
   onInputChange: (value: string, type: 'start' | 'destination') => void;
   onClear: () => void;
   onCalculate: () => void;
+  onPreferencesChange: (preferences: RoutingPreferences) => void;
+  formatter: Formatter;
+  onDisplaySettingsChange: (settings: DisplaySettings) => void;
+  departureTime: Date | null;
+  onDepartureTimeChange: (departureTime: Date | null) => void;
+  onRemoveWaypoint: (index: number) => void;
+  onMoveWaypoint: (index: number, direction: -1 | 1) => void;
+  routeSweep: RouteSweep | null;
+  isSweeping: boolean;
+  sweepError: RoutingError | null;
+  selectedSweepIndex: number | null;
+  onExploreSweep: () => void;
+  onSelectSweepRoute: (index: number) => void;
+  onCloseSweep: () => void;
+  loops: LoopRoute[] | null;
+  isFindingLoops: boolean;
+  loopError: RoutingError | null;
+  selectedLoopIndex: number | null;
+  onFindLoops: (targetDistanceM: number) => void;
+  onSelectLoop: (index: number) => void;
+  onCloseLoops: () => void;
+  directions: DirectionStep[] | null; // For the safe route
+  onSelectDirectionStep: (step: DirectionStep) => void;
+  isNavigating: boolean;
+  onStartNavigation: () => void;
+  shareUrl: string | null;
+  importedRouteName: string | null;
+  importComparison: ImportedRouteComparison | null;
+  importScoringError: string | null; // Why the imported route couldn't be scored
+  importError: string | null;
+  onImportRoute: (file: File) => void;
+  onClearImportedRoute: () => void;
+  savedPlaces: SavedPlace[];
+  recentPlaces: RecentPlace[];
+  onSelectPlace: (place: Place) => void; // Quick chips set the destination
+  onSavePlace: (name: string) => void; // Saves the current destination
+  onRemoveSavedPlace: (id: string) => void;
+  tripHistory: TripHistoryEntry[];
+  onRerunTrip: (entry: TripHistoryEntry) => void;
+  onReplayTrip: (entry: TripHistoryEntry) => void;
+  onRemoveTrip: (key: string) => void;
 }
 
 export default function Sidebar({
   startPoint,
   destinationPoint,
+  waypoints,
   startInputValue,
   destinationInputValue,
   routes,
   isLoadingRoutes,
   routeError,
+  routingPreferences,
   onLocationSelect,
   onInputChange,
   onClear,
-  onCalculate
+  onCalculate,
+  onPreferencesChange,
+  formatter,
+  onDisplaySettingsChange,
+  departureTime,
+  onDepartureTimeChange,
+  onRemoveWaypoint,
+  onMoveWaypoint,
+  routeSweep,
+  isSweeping,
+  sweepError,
+  selectedSweepIndex,
+  onExploreSweep,
+  onSelectSweepRoute,
+  onCloseSweep,
+  loops,
+  isFindingLoops,
+  loopError,
+  selectedLoopIndex,
+  onFindLoops,
+  onSelectLoop,
+  onCloseLoops,
+  directions,
+  onSelectDirectionStep,
+  isNavigating,
+  onStartNavigation,
+  shareUrl,
+  importedRouteName,
+  importComparison,
+  importScoringError,
+  importError,
+  onImportRoute,
+  onClearImportedRoute,
+  savedPlaces,
+  recentPlaces,
+  onSelectPlace,
+  onSavePlace,
+  onRemoveSavedPlace,
+  tripHistory,
+  onRerunTrip,
+  onReplayTrip,
+  onRemoveTrip
 }: SidebarProps) {
+  // Sample routes in demo mode are greyed out so their numbers aren't mistaken for real ones
+  const demoCardClass = routes?.isDemo ? ' opacity-50 grayscale' : '';
+  const comparison = routes ? RoutingService.getComparison(routes) : null;
+  const savableDestination: Place | null = destinationPoint?.address
+    ? { lng: destinationPoint.lng, lat: destinationPoint.lat, address: destinationPoint.address }
+    : null;
+
   return (
     <>
       {/* Mobile Layout */}
@@ -62,6 +177,20 @@ export default function Sidebar({
               destinationValue={destinationInputValue}
               onInputChange={onInputChange}
               onClear={onClear}
+              waypoints={waypoints}
+              onRemoveWaypoint={onRemoveWaypoint}
+              onMoveWaypoint={onMoveWaypoint}
+              savedPlaces={savedPlaces}
+              recentPlaces={recentPlaces}
+            />
+            <SavedPlacesBar
+              savedPlaces={savedPlaces}
+              recentPlaces={recentPlaces}
+              destination={savableDestination}
+              onSelect={onSelectPlace}
+              onSave={onSavePlace}
+              onRemove={onRemoveSavedPlace}
+              compact
             />
             {/* Button Row for Mobile - below SearchBox */}
             {(startPoint || destinationPoint || startInputValue || destinationInputValue) && (
@@ -83,6 +212,49 @@ export default function Sidebar({
                 </button>
               </div>
             )}
+            <DepartureTimePicker
+              departureTime={departureTime}
+              onChange={onDepartureTimeChange}
+              compact
+            />
+            <RoutePreferencesPanel
+              preferences={routingPreferences}
+              onChange={onPreferencesChange}
+              displaySettings={formatter.settings}
+              onDisplaySettingsChange={onDisplaySettingsChange}
+              compact
+            />
+            <LoopPanel
+              hasStart={!!startPoint}
+              loops={loops}
+              isFindingLoops={isFindingLoops}
+              loopError={loopError}
+              selectedIndex={selectedLoopIndex}
+              onFind={onFindLoops}
+              onSelect={onSelectLoop}
+              onClose={onCloseLoops}
+              formatter={formatter}
+              departureTime={departureTime}
+              compact
+            />
+            <ImportRoutePanel
+              routeName={importedRouteName}
+              comparison={importComparison}
+              scoringError={importScoringError}
+              importError={importError}
+              onImport={onImportRoute}
+              onClear={onClearImportedRoute}
+              formatter={formatter}
+              compact
+            />
+            <TripHistoryPanel
+              entries={tripHistory}
+              onRerun={onRerunTrip}
+              onReplay={onReplayTrip}
+              onRemove={onRemoveTrip}
+              formatter={formatter}
+              compact
+            />
           </div>
         </div>
 
@@ -118,24 +290,22 @@ export default function Sidebar({
 
               {/* Error state */}
               {routeError && (
-                <div className="bg-red-500/10 border border-red-500/30 rounded-lg p-3">
-                  <div className="flex items-start space-x-3">
-                    <div className="w-10 h-10 bg-red-500 rounded-full flex items-center justify-center">
-                      <AlertTriangle className="w-5 h-5 text-white" />
-                    </div>
-                    <div className="flex-1">
-                      <h3 className="text-base font-bold text-slate-800 mb-1">Route Error</h3>
-                      <p className="text-xs text-red-700">{routeError}</p>
-                    </div>
-                  </div>
-                </div>
+                <RouteErrorCard error={routeError} onRetry={onCalculate} compact />
               )}
 
               {/* Route details */}
-              {routes && !isLoadingRoutes && !routeError && (
+              {routes && comparison && !isLoadingRoutes && !routeError && (
                 <div className="space-y-3">
+                  {routes.isDemo && <DemoModeBanner onRetry={onCalculate} compact />}
+                  {(routes.cachedAt || shareUrl) && (
+                    <div className="flex items-center justify-between gap-2">
+                      {routes.cachedAt ? <CachedResultBadge cachedAt={routes.cachedAt} formatter={formatter} compact /> : <span />}
+                      {shareUrl && !routes.isDemo && <ShareRouteButton url={shareUrl} compact />}
+                    </div>
+                  )}
+
                   {/* Safe Route - Recommended */}
-                  <div className="bg-emerald-500/10 border border-emerald-500 rounded-lg overflow-hidden">
+                  <div className={`bg-emerald-500/10 border border-emerald-500 rounded-lg overflow-hidden${demoCardClass}`}>
                     <div className="p-3">
                       <div className="flex items-center justify-between mb-3">
                         <div className="flex items-center space-x-2">
@@ -149,7 +319,7 @@ export default function Sidebar({
                         </div>
                         <div className="bg-emerald-500/20 border border-emerald-500/30 px-2 py-1 rounded-md">
                           <span className="text-xs text-emerald-700 font-bold">
-                            +{Math.round((routes.safe.route_stats.safety_score - routes.shortest.route_stats.safety_score) * 100)}% safer
+                            +{formatter.safetyScore(comparison.safety_score.difference)}
                           </span>
                         </div>
                       </div>
@@ -161,9 +331,9 @@ export default function Sidebar({
                               <Route className="w-6 h-6 text-emerald-600" />
                               <div className="flex-1 pl-2">
                                 <p className="text-xs text-slate-600">Distance</p>
-                                <p className="text-sm font-bold text-slate-800">{RoutingService.formatDistance(routes.safe.route_stats.total_distance_m)}</p>
+                                <p className="text-sm font-bold text-slate-800">{formatter.distance(routes.safe.route_stats.total_distance_m)}</p>
                                 <p className="text-xs text-amber-600 font-medium">
-                                  +{RoutingService.formatDistance(routes.safe.route_stats.total_distance_m - routes.shortest.route_stats.total_distance_m)}
+                                  +{formatter.distance(comparison.total_distance_m.difference)}
                                 </p>
                               </div>
                             </div>
@@ -173,10 +343,11 @@ export default function Sidebar({
                               <Clock className="w-6 h-6 text-emerald-600" />
                               <div className="flex-1 pl-2">
                                 <p className="text-xs text-slate-600">Time</p>
-                                <p className="text-sm font-bold text-slate-800">{RoutingService.formatTime(routes.safe.route_stats.total_time_s)}</p>
+                                <p className="text-sm font-bold text-slate-800">{formatter.duration(routes.safe.route_stats.total_time_s)}</p>
                                 <p className="text-xs text-amber-600 font-medium">
-                                  +{RoutingService.formatTime(routes.safe.route_stats.total_time_s - routes.shortest.route_stats.total_time_s)}
+                                  +{formatter.duration(comparison.total_time_s.difference)}
                                 </p>
+                                <p className="text-xs text-slate-500">{formatter.arrival(routes.safe.route_stats.total_time_s, departureTime)}</p>
                               </div>
                             </div>
                           </div>
@@ -188,11 +359,34 @@ export default function Sidebar({
                           />
                         </div>
                       </div>
+                      <RouteLegsList formatter={formatter} legs={routes.safe.legs ?? []} accentClassName="text-emerald-600" compact />
+                      {!routes.isDemo && (
+                        <ExportRouteMenu
+                          route={routes.safe}
+                          name="Safest route"
+                          startName={startPoint?.address}
+                          destinationName={destinationPoint?.address}
+                          color={SAFE_ROUTE_COLOR}
+                          compact
+                        />
+                      )}
+                      {directions && (
+                        <DirectionsList steps={directions} formatter={formatter} onSelectStep={onSelectDirectionStep} compact />
+                      )}
+                      {!routes.isDemo && !isNavigating && (
+                        <button
+                          onClick={onStartNavigation}
+                          className="w-full mt-2 flex items-center justify-center gap-2 rounded-md bg-emerald-500 text-white text-xs font-semibold px-3 py-2 hover:bg-emerald-600 transition"
+                        >
+                          <Footprints className="w-4 h-4" />
+                          Start walking
+                        </button>
+                      )}
                     </div>
                   </div>
 
                   {/* Fastest Route - Alternative */}
-                  <div className="bg-transparent border border-slate-400/20 rounded-lg overflow-hidden">
+                  <div className={`bg-transparent border border-slate-400/20 rounded-lg overflow-hidden${demoCardClass}`}>
                     <div className="p-3">
                       <div className="flex items-center space-x-2 mb-2">
                         <div className="w-8 h-8 bg-blue-500 rounded-lg flex items-center justify-center shadow-lg">
@@ -211,7 +405,7 @@ export default function Sidebar({
                               <Route className="w-6 h-6 text-blue-600" />
                               <div className="flex-1 pl-2">
                                 <p className="text-xs text-slate-600">Distance</p>
-                                <p className="text-sm font-bold text-slate-800">{RoutingService.formatDistance(routes.shortest.route_stats.total_distance_m)}</p>
+                                <p className="text-sm font-bold text-slate-800">{formatter.distance(routes.shortest.route_stats.total_distance_m)}</p>
                               </div>
                             </div>
                           </div>
@@ -220,7 +414,8 @@ export default function Sidebar({
                               <Clock className="w-6 h-6 text-blue-600" />
                               <div className="flex-1 pl-2">
                                 <p className="text-xs text-slate-600">Time</p>
-                                <p className="text-sm font-bold text-slate-800">{RoutingService.formatTime(routes.shortest.route_stats.total_time_s)}</p>
+                                <p className="text-sm font-bold text-slate-800">{formatter.duration(routes.shortest.route_stats.total_time_s)}</p>
+                                <p className="text-xs text-slate-500">{formatter.arrival(routes.shortest.route_stats.total_time_s, departureTime)}</p>
                               </div>
                             </div>
                           </div>
@@ -232,8 +427,35 @@ export default function Sidebar({
                           />
                         </div>
                       </div>
+                      <RouteLegsList formatter={formatter} legs={routes.shortest.legs ?? []} accentClassName="text-blue-600" compact />
+                      {!routes.isDemo && (
+                        <ExportRouteMenu
+                          route={routes.shortest}
+                          name="Fastest route"
+                          startName={startPoint?.address}
+                          destinationName={destinationPoint?.address}
+                          color={SHORTEST_ROUTE_COLOR}
+                          compact
+                        />
+                      )}
                     </div>
                   </div>
+
+                  <div className={demoCardClass.trim()}>
+                    <ComparisonPanel comparison={comparison} formatter={formatter} compact />
+                  </div>
+
+                  <RouteSweepPanel
+                    sweep={routeSweep}
+                    isSweeping={isSweeping}
+                    sweepError={sweepError}
+                    selectedIndex={selectedSweepIndex}
+                    onExplore={onExploreSweep}
+                    onSelect={onSelectSweepRoute}
+                    onClose={onCloseSweep}
+                    formatter={formatter}
+                    compact
+                  />
                 </div>
               )}
             </div>
@@ -280,6 +502,19 @@ export default function Sidebar({
             destinationValue={destinationInputValue}
             onInputChange={onInputChange}
             onClear={onClear}
+            waypoints={waypoints}
+            onRemoveWaypoint={onRemoveWaypoint}
+            onMoveWaypoint={onMoveWaypoint}
+            savedPlaces={savedPlaces}
+            recentPlaces={recentPlaces}
+          />
+          <SavedPlacesBar
+            savedPlaces={savedPlaces}
+            recentPlaces={recentPlaces}
+            destination={savableDestination}
+            onSelect={onSelectPlace}
+            onSave={onSavePlace}
+            onRemove={onRemoveSavedPlace}
           />
           {/* Button Row for Desktop - below SearchBox */}
           {(startPoint || destinationPoint || startInputValue || destinationInputValue) && (
@@ -301,6 +536,44 @@ export default function Sidebar({
               </button>
             </div>
           )}
+          <DepartureTimePicker
+            departureTime={departureTime}
+            onChange={onDepartureTimeChange}
+          />
+          <RoutePreferencesPanel
+            preferences={routingPreferences}
+            onChange={onPreferencesChange}
+            displaySettings={formatter.settings}
+            onDisplaySettingsChange={onDisplaySettingsChange}
+          />
+          <LoopPanel
+            hasStart={!!startPoint}
+            loops={loops}
+            isFindingLoops={isFindingLoops}
+            loopError={loopError}
+            selectedIndex={selectedLoopIndex}
+            onFind={onFindLoops}
+            onSelect={onSelectLoop}
+            onClose={onCloseLoops}
+            formatter={formatter}
+            departureTime={departureTime}
+          />
+          <ImportRoutePanel
+            routeName={importedRouteName}
+            comparison={importComparison}
+            scoringError={importScoringError}
+            importError={importError}
+            onImport={onImportRoute}
+            onClear={onClearImportedRoute}
+            formatter={formatter}
+          />
+          <TripHistoryPanel
+            entries={tripHistory}
+            onRerun={onRerunTrip}
+            onReplay={onReplayTrip}
+            onRemove={onRemoveTrip}
+            formatter={formatter}
+          />
         </div>
 
         {/* Route Information Section */}
@@ -327,24 +600,22 @@ export default function Sidebar({
 
               {/* Error state */}
               {routeError && (
-                <div className="bg-red-500/10 border border-red-500/30 rounded-2xl p-6">
-                  <div className="flex items-start space-x-5">
-                    <div className="w-16 h-16 bg-red-500 rounded-full flex items-center justify-center">
-                      <AlertTriangle className="w-8 h-8 text-white" />
-                    </div>
-                    <div className="flex-1">
-                      <h3 className="text-xl font-bold text-slate-800 mb-2">Route Error</h3>
-                      <p className="text-red-700">{routeError}</p>
-                    </div>
-                  </div>
-                </div>
+                <RouteErrorCard error={routeError} onRetry={onCalculate} />
               )}
 
               {/* Route details */}
-              {routes && !isLoadingRoutes && !routeError && (
+              {routes && comparison && !isLoadingRoutes && !routeError && (
                 <div className="space-y-5">
+                  {routes.isDemo && <DemoModeBanner onRetry={onCalculate} />}
+                  {(routes.cachedAt || shareUrl) && (
+                    <div className="flex items-center justify-between gap-2">
+                      {routes.cachedAt ? <CachedResultBadge cachedAt={routes.cachedAt} formatter={formatter} /> : <span />}
+                      {shareUrl && !routes.isDemo && <ShareRouteButton url={shareUrl} />}
+                    </div>
+                  )}
+
                   {/* Safe Route - Recommended */}
-                  <div className="bg-emerald-500/10 border border-emerald-500 rounded-2xl overflow-hidden">
+                  <div className={`bg-emerald-500/10 border border-emerald-500 rounded-2xl overflow-hidden${demoCardClass}`}>
                     <div className="p-5">
                       <div className="flex items-center justify-between mb-5">
                         <div className="flex items-center space-x-4">
@@ -358,7 +629,7 @@ export default function Sidebar({
                         </div>
                         <div className="bg-emerald-500/20 border border-emerald-500/30 px-4 py-2 rounded-xl">
                           <span className="text-emerald-700 font-bold">
-                            +{Math.round((routes.safe.route_stats.safety_score - routes.shortest.route_stats.safety_score) * 100)}% safer
+                            +{formatter.safetyScore(comparison.safety_score.difference)}
                           </span>
                         </div>
                       </div>
@@ -371,9 +642,9 @@ export default function Sidebar({
                               <Route className="w-6 h-6 text-emerald-600" />
                               <div>
                                 <p className="text-slate-600 text-sm">Distance</p>
-                                <p className="text-xl font-bold text-slate-800">{RoutingService.formatDistance(routes.safe.route_stats.total_distance_m)}</p>
+                                <p className="text-xl font-bold text-slate-800">{formatter.distance(routes.safe.route_stats.total_distance_m)}</p>
                                 <p className="text-sm text-amber-600 font-medium">
-                                  +{RoutingService.formatDistance(routes.safe.route_stats.total_distance_m - routes.shortest.route_stats.total_distance_m)}
+                                  +{formatter.distance(comparison.total_distance_m.difference)}
                                 </p>
                               </div>
                             </div>
@@ -383,10 +654,11 @@ export default function Sidebar({
                               <Clock className="w-6 h-6 text-emerald-600" />
                               <div>
                                 <p className="text-slate-600 text-sm">Time</p>
-                                <p className="text-xl font-bold text-slate-800">{RoutingService.formatTime(routes.safe.route_stats.total_time_s)}</p>
+                                <p className="text-xl font-bold text-slate-800">{formatter.duration(routes.safe.route_stats.total_time_s)}</p>
                                 <p className="text-sm text-amber-600 font-medium">
-                                  +{RoutingService.formatTime(routes.safe.route_stats.total_time_s - routes.shortest.route_stats.total_time_s)}
+                                  +{formatter.duration(comparison.total_time_s.difference)}
                                 </p>
+                                <p className="text-sm text-slate-500">{formatter.arrival(routes.safe.route_stats.total_time_s, departureTime)}</p>
                               </div>
                             </div>
                           </div>
@@ -398,11 +670,33 @@ export default function Sidebar({
                           />
                         </div>
                       </div>
+                      <RouteLegsList formatter={formatter} legs={routes.safe.legs ?? []} accentClassName="text-emerald-600" />
+                      {!routes.isDemo && (
+                        <ExportRouteMenu
+                          route={routes.safe}
+                          name="Safest route"
+                          startName={startPoint?.address}
+                          destinationName={destinationPoint?.address}
+                          color={SAFE_ROUTE_COLOR}
+                        />
+                      )}
+                      {directions && (
+                        <DirectionsList steps={directions} formatter={formatter} onSelectStep={onSelectDirectionStep} />
+                      )}
+                      {!routes.isDemo && !isNavigating && (
+                        <button
+                          onClick={onStartNavigation}
+                          className="w-full mt-4 flex items-center justify-center gap-2 rounded-xl bg-emerald-500 text-white text-sm font-semibold px-4 py-3 hover:bg-emerald-600 transition"
+                        >
+                          <Footprints className="w-4 h-4" />
+                          Start walking
+                        </button>
+                      )}
                     </div>
                   </div>
 
                   {/* Fastest Route - Alternative */}
-                  <div className="bg-transparent border border-slate-400/20 rounded-2xl overflow-hidden">
+                  <div className={`bg-transparent border border-slate-400/20 rounded-2xl overflow-hidden${demoCardClass}`}>
                     <div className="p-5">
                       <div className="flex items-center space-x-4 mb-5">
                         <div className="w-12 h-12 bg-blue-500 rounded-xl flex items-center justify-center shadow-lg">
@@ -421,7 +715,7 @@ export default function Sidebar({
                               <Route className="w-6 h-6 text-blue-600" />
                               <div>
                                 <p className="text-slate-600 text-sm">Distance</p>
-                                <p className="text-xl font-bold text-slate-800">{RoutingService.formatDistance(routes.shortest.route_stats.total_distance_m)}</p>
+                                <p className="text-xl font-bold text-slate-800">{formatter.distance(routes.shortest.route_stats.total_distance_m)}</p>
                               </div>
                             </div>
                           </div>
@@ -430,7 +724,8 @@ export default function Sidebar({
                               <Clock className="w-6 h-6 text-blue-600" />
                               <div>
                                 <p className="text-slate-600 text-sm">Time</p>
-                                <p className="text-xl font-bold text-slate-800">{RoutingService.formatTime(routes.shortest.route_stats.total_time_s)}</p>
+                                <p className="text-xl font-bold text-slate-800">{formatter.duration(routes.shortest.route_stats.total_time_s)}</p>
+                                <p className="text-sm text-slate-500">{formatter.arrival(routes.shortest.route_stats.total_time_s, departureTime)}</p>
                               </div>
                             </div>
                           </div>
@@ -442,8 +737,33 @@ export default function Sidebar({
                           />
                         </div>
                       </div>
+                      <RouteLegsList formatter={formatter} legs={routes.shortest.legs ?? []} accentClassName="text-blue-600" />
+                      {!routes.isDemo && (
+                        <ExportRouteMenu
+                          route={routes.shortest}
+                          name="Fastest route"
+                          startName={startPoint?.address}
+                          destinationName={destinationPoint?.address}
+                          color={SHORTEST_ROUTE_COLOR}
+                        />
+                      )}
                     </div>
                   </div>
+
+                  <div className={demoCardClass.trim()}>
+                    <ComparisonPanel comparison={comparison} formatter={formatter} />
+                  </div>
+
+                  <RouteSweepPanel
+                    sweep={routeSweep}
+                    isSweeping={isSweeping}
+                    sweepError={sweepError}
+                    selectedIndex={selectedSweepIndex}
+                    onExplore={onExploreSweep}
+                    onSelect={onSelectSweepRoute}
+                    onClose={onCloseSweep}
+                    formatter={formatter}
+                  />
                 </div>
               )}
             </div>
@@ -0,0 +1,21 @@
+import React from 'react';
+import { History } from 'lucide-react';
+import Formatter from '../../utils/formatting';
+
+interface CachedResultBadgeProps {
+  cachedAt: number; // Epoch milliseconds
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+export default function CachedResultBadge({ cachedAt, formatter, compact = false }: CachedResultBadgeProps) {
+  return (
+    <div
+      className={`inline-flex items-center gap-2 bg-slate-500/10 border border-slate-400/30 text-slate-600 font-medium ${compact ? 'px-2 py-1 rounded-md text-xs' : 'px-3 py-1.5 rounded-lg text-sm'}`}
+      title={`Calculated ${new Date(cachedAt).toLocaleString(formatter.settings.locale)}`}
+    >
+      <History className={compact ? 'w-3 h-3' : 'w-4 h-4'} />
+      Saved result · {formatter.timeAgo(cachedAt)}
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import React from 'react';
+import { Scale } from 'lucide-react';
+import {
+  ComparisonStats,
+  ComparedStat,
+  MetricComparison,
+  COMPARED_STATS,
+  describeComparison
+} from '../../services/routeComparison';
+import Formatter from '../../utils/formatting';
+
+interface ComparisonPanelProps {
+  comparison: ComparisonStats;
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+interface MetricDisplay {
+  label: string;
+  format: (formatter: Formatter, value: number) => string;
+  higherIsBetter: boolean;
+}
+
+const METRICS: Record<ComparedStat, MetricDisplay> = {
+  total_distance_m: { label: 'Distance', format: (formatter, value) => formatter.distance(value), higherIsBetter: false },
+  total_time_s: { label: 'Time', format: (formatter, value) => formatter.duration(value), higherIsBetter: false },
+  crime_incidents_nearby: { label: 'Incidents nearby', format: (formatter, value) => formatter.number(value), higherIsBetter: false },
+  safety_score: { label: 'Safety score', format: (formatter, value) => formatter.number(value * 100), higherIsBetter: true }
+};
+
+// "+154 m (+30%)", with the sign on both parts
+function formatChange(
+  metric: MetricDisplay,
+  { difference, percent_change }: MetricComparison,
+  formatter: Formatter
+): string {
+  if (difference === 0) return 'Same';
+  const sign = difference > 0 ? '+' : '−';
+  const amount = `${sign}${metric.format(formatter, Math.abs(difference))}`;
+  return percent_change === null ? amount : `${amount} (${sign}${formatter.percent(Math.abs(percent_change) / 100)})`;
+}
+
+function getChangeClass(metric: MetricDisplay, { difference }: MetricComparison): string {
+  if (difference === 0) return 'text-slate-500';
+  const isBetter = metric.higherIsBetter ? difference > 0 : difference < 0;
+  return isBetter ? 'text-emerald-600' : 'text-amber-600';
+}
+
+export default function ComparisonPanel({ comparison, formatter, compact = false }: ComparisonPanelProps) {
+  const cellClass = compact ? 'px-2 py-1' : 'px-3 py-2';
+
+  return (
+    <div className={`bg-white/20 border border-white/30 ${compact ? 'rounded-lg p-3' : 'rounded-2xl p-5'}`}>
+      <div className={`flex items-center ${compact ? 'space-x-2 mb-2' : 'space-x-3 mb-3'}`}>
+        <Scale className={compact ? 'w-4 h-4 text-slate-600' : 'w-5 h-5 text-slate-600'} />
+        <div>
+          <h3 className={`font-bold text-slate-800 ${compact ? 'text-sm' : 'text-lg'}`}>Safest vs. fastest</h3>
+          <p className={`text-slate-600 ${compact ? 'text-xs' : 'text-sm'}`}>{describeComparison(comparison)}</p>
+        </div>
+      </div>
+
+      <table className={`w-full ${compact ? 'text-xs' : 'text-sm'}`}>
+        <thead>
+          <tr className="text-slate-500 text-left">
+            <th className={`${cellClass} font-medium`}></th>
+            <th className={`${cellClass} font-medium text-blue-600`}>Fastest</th>
+            <th className={`${cellClass} font-medium text-emerald-600`}>Safest</th>
+            <th className={`${cellClass} font-medium text-right`}>Change</th>
+          </tr>
+        </thead>
+        <tbody>
+          {COMPARED_STATS.map((stat) => {
+            const metric = METRICS[stat];
+            const values = comparison[stat];
+            return (
+              <tr key={stat} className="border-t border-white/30">
+                <td className={`${cellClass} text-slate-600`}>{metric.label}</td>
+                <td className={`${cellClass} font-semibold text-slate-800`}>{metric.format(formatter, values.shortest)}</td>
+                <td className={`${cellClass} font-semibold text-slate-800`}>{metric.format(formatter, values.safest)}</td>
+                <td className={`${cellClass} font-medium text-right ${getChangeClass(metric, values)}`}>
+                  {formatChange(metric, values, formatter)}
+                </td>
+              </tr>
+            );
+          })}
+        </tbody>
+      </table>
+    </div>
+  );
+}
@@ -0,0 +1,36 @@
+import React from 'react';
+import { FlaskConical, RotateCw } from 'lucide-react';
+
+interface DemoModeBannerProps {
+  onRetry: () => void;
+  compact?: boolean;
+}
+
+export default function DemoModeBanner({ onRetry, compact = false }: DemoModeBannerProps) {
+  return (
+    <div className={`bg-amber-500/15 border border-amber-500/40 ${compact ? 'rounded-lg p-3' : 'rounded-2xl p-5'}`}>
+      <div className={`flex items-start ${compact ? 'space-x-3' : 'space-x-4'}`}>
+        <div className={`flex-shrink-0 bg-amber-500 rounded-full flex items-center justify-center ${compact ? 'w-8 h-8' : 'w-12 h-12'}`}>
+          <FlaskConical className={compact ? 'w-4 h-4 text-white' : 'w-6 h-6 text-white'} />
+        </div>
+        <div className="flex-1">
+          <h3 className={`font-bold text-slate-800 ${compact ? 'text-sm' : 'text-lg mb-1'}`}>
+            Demo · offline sample
+          </h3>
+          <p className={`text-amber-800 ${compact ? 'text-xs' : 'text-sm'}`}>
+            The routing service is unavailable. These are sample routes that don&apos;t match your trip,
+            so their safety numbers don&apos;t apply to it.
+          </p>
+        </div>
+        <button
+          onClick={onRetry}
+          className={`flex-shrink-0 inline-flex items-center gap-1 bg-white/70 border border-amber-500/40 text-amber-800 font-semibold hover:bg-white transition ${compact ? 'px-2 py-1 rounded-md text-xs' : 'px-3 py-2 rounded-lg text-sm'}`}
+          aria-label="Retry route calculation"
+        >
+          <RotateCw className="w-4 h-4" />
+          Retry
+        </button>
+      </div>
+    </div>
+  );
+}
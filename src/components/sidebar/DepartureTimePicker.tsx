@@ -0,0 +1,58 @@
+import React from 'react';
+import { CalendarClock, X } from 'lucide-react';
+import {
+  describeTimeWindow,
+  toDateTimeLocalValue,
+  fromDateTimeLocalValue
+} from '../../utils/departureTime';
+
+interface DepartureTimePickerProps {
+  departureTime: Date | null; // null = any time of day
+  onChange: (departureTime: Date | null) => void;
+  compact?: boolean;
+}
+
+export default function DepartureTimePicker({ departureTime, onChange, compact = false }: DepartureTimePickerProps) {
+  const textClass = compact ? 'text-xs' : 'text-sm';
+
+  return (
+    <div className={`border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg ${compact ? 'rounded-lg mt-3 px-3 py-2' : 'rounded-xl mt-4 px-5 py-3'}`}>
+      <div className="flex items-center justify-between gap-2">
+        <label htmlFor={compact ? 'departure-time-mobile' : 'departure-time'} className={`flex items-center gap-2 font-semibold text-slate-700 ${textClass}`}>
+          <CalendarClock className="w-4 h-4" />
+          Depart at
+        </label>
+        <div className="flex items-center gap-1">
+          <input
+            id={compact ? 'departure-time-mobile' : 'departure-time'}
+            type="datetime-local"
+            value={departureTime ? toDateTimeLocalValue(departureTime) : ''}
+            onChange={(e) => onChange(fromDateTimeLocalValue(e.target.value))}
+            className={`bg-white/40 border border-slate-300 rounded-md text-slate-800 ${compact ? 'px-1 py-0.5 text-xs' : 'px-2 py-1 text-sm'}`}
+          />
+          {departureTime ? (
+            <button
+              onClick={() => onChange(null)}
+              className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+              aria-label="Clear departure time"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          ) : (
+            <button
+              onClick={() => onChange(new Date())}
+              className={`rounded-md bg-white/40 border border-slate-300 text-slate-700 font-semibold hover:bg-white/60 transition ${compact ? 'px-2 py-0.5 text-xs' : 'px-2 py-1 text-sm'}`}
+            >
+              Now
+            </button>
+          )}
+        </div>
+      </div>
+      <p className={`text-slate-500 mt-1 ${compact ? 'text-[11px]' : 'text-xs'}`}>
+        {departureTime
+          ? `Routing and heatmap use incidents from ${describeTimeWindow(departureTime)}`
+          : 'Any time of day: all incidents are counted'}
+      </p>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import React, { useState } from 'react';
+import {
+  ArrowUp,
+  ArrowUpLeft,
+  ArrowUpRight,
+  ChevronDown,
+  ChevronUp,
+  CornerLeftDown,
+  CornerRightDown,
+  CornerUpLeft,
+  CornerUpRight,
+  Flag,
+  ListOrdered,
+  Navigation2,
+  Undo2,
+  LucideIcon
+} from 'lucide-react';
+import { DirectionStep, Maneuver, describeStep } from '../../utils/directions';
+import Formatter from '../../utils/formatting';
+
+interface DirectionsListProps {
+  steps: DirectionStep[];
+  formatter: Formatter;
+  onSelectStep: (step: DirectionStep) => void;
+  compact?: boolean;
+}
+
+const MANEUVER_ICONS: Record<Maneuver, LucideIcon> = {
+  depart: Navigation2,
+  straight: ArrowUp,
+  'slight-left': ArrowUpLeft,
+  left: CornerUpLeft,
+  'sharp-left': CornerLeftDown,
+  'slight-right': ArrowUpRight,
+  right: CornerUpRight,
+  'sharp-right': CornerRightDown,
+  'u-turn': Undo2,
+  arrive: Flag
+};
+
+export default function DirectionsList({ steps, formatter, onSelectStep, compact = false }: DirectionsListProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (steps.length === 0) return null;
+
+  return (
+    <div className={`bg-white/20 border border-white/30 ${compact ? 'rounded-md mt-2' : 'rounded-xl mt-4'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between text-slate-700 font-semibold hover:bg-white/20 transition ${compact ? 'px-2 py-1 text-xs' : 'px-4 py-2 text-sm'}`}
+        aria-expanded={isOpen}
+      >
+        <span className="flex items-center gap-2">
+          <ListOrdered className="w-4 h-4" />
+          Directions · {steps.length} steps
+        </span>
+        {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+
+      {isOpen && (
+        <ol className="border-t border-white/30">
+          {steps.map((step, index) => {
+            const Icon = MANEUVER_ICONS[step.maneuver];
+            return (
+              <li key={index}>
+                <button
+                  onClick={() => onSelectStep(step)}
+                  className={`w-full flex items-center gap-3 text-left border-b border-white/30 last:border-b-0 hover:bg-white/30 transition ${compact ? 'px-2 py-1 text-xs' : 'px-4 py-2 text-sm'}`}
+                >
+                  <Icon className="w-4 h-4 flex-shrink-0 text-emerald-600" />
+                  <span className="flex-1 text-slate-800">{describeStep(step)}</span>
+                  {step.distanceM > 0 && (
+                    <span className="flex-shrink-0 text-slate-500">{formatter.distance(step.distanceM)}</span>
+                  )}
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,43 @@
+import React from 'react';
+import { Download } from 'lucide-react';
+import { RouteResponse } from '../../services/routingService';
+import { EXPORT_FORMATS, ExportFormat, exportRoute, downloadFile } from '../../utils/routeExport';
+
+interface ExportRouteMenuProps {
+  route: RouteResponse;
+  name: string; // Used for the file name and the route's title inside the file
+  startName?: string;
+  destinationName?: string;
+  color?: string;
+  compact?: boolean;
+}
+
+export default function ExportRouteMenu({
+  route,
+  name,
+  startName,
+  destinationName,
+  color,
+  compact = false
+}: ExportRouteMenuProps) {
+  const download = (format: ExportFormat) => {
+    downloadFile(exportRoute(format, { route, name, startName, destinationName, color }));
+  };
+
+  return (
+    <div className={`flex items-center gap-1 text-slate-600 ${compact ? 'mt-2 text-xs' : 'mt-3 text-sm'}`}>
+      <Download className="w-4 h-4 mr-1" />
+      <span className="mr-1">Download</span>
+      {EXPORT_FORMATS.map(({ format, label }) => (
+        <button
+          key={format}
+          onClick={() => download(format)}
+          className={`rounded-md bg-white/20 border border-white/30 font-semibold text-slate-700 hover:bg-white/40 transition ${compact ? 'px-1.5 py-0.5' : 'px-2 py-1'}`}
+          title={`Download ${name.toLowerCase()} as ${label}`}
+        >
+          {label}
+        </button>
+      ))}
+    </div>
+  );
+}
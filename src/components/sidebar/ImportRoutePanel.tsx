@@ -0,0 +1,132 @@
+import React, { useRef } from 'react';
+import { FileUp, X } from 'lucide-react';
+import { RouteStats } from '../../services/routingService';
+import { ImportedRouteComparison, IMPORT_FILE_ACCEPT } from '../../utils/routeImport';
+import { IMPORTED_ROUTE_COLOR, SAFE_ROUTE_COLOR } from '../../utils/routeColors';
+import Formatter from '../../utils/formatting';
+
+interface ImportRoutePanelProps {
+  routeName: string | null; // Set once a file has been imported
+  comparison: ImportedRouteComparison | null;
+  scoringError: string | null;
+  importError: string | null;
+  onImport: (file: File) => void;
+  onClear: () => void;
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+const ROWS: { label: string; format: (formatter: Formatter, stats: RouteStats) => string }[] = [
+  { label: 'Distance', format: (formatter, stats) => formatter.distance(stats.total_distance_m) },
+  { label: 'Time', format: (formatter, stats) => formatter.duration(stats.total_time_s) },
+  { label: 'Incidents nearby', format: (formatter, stats) => formatter.number(stats.crime_incidents_nearby) },
+  { label: 'Safety score', format: (formatter, stats) => formatter.number(stats.safety_score * 100) }
+];
+
+export default function ImportRoutePanel({
+  routeName,
+  comparison,
+  scoringError,
+  importError,
+  onImport,
+  onClear,
+  formatter,
+  compact = false
+}: ImportRoutePanelProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const textClass = compact ? 'text-xs' : 'text-sm';
+  const cellClass = compact ? 'px-2 py-1' : 'px-3 py-2';
+
+  const fileInput = (
+    <input
+      ref={fileInputRef}
+      type="file"
+      accept={IMPORT_FILE_ACCEPT}
+      className="hidden"
+      onChange={(e) => {
+        const file = e.target.files?.[0];
+        // Reset so picking the same file again still fires a change
+        e.target.value = '';
+        if (file) onImport(file);
+      }}
+    />
+  );
+
+  if (!routeName) {
+    return (
+      <>
+        {fileInput}
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className={`w-full flex items-center justify-center gap-2 border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg text-slate-700 font-semibold hover:bg-white/20 transition ${compact ? 'rounded-lg mt-3 px-3 py-2 text-xs' : 'rounded-xl mt-4 px-5 py-3 text-sm'}`}
+          title="Or drop a GPX or GeoJSON file on the map"
+        >
+          <FileUp className="w-4 h-4" />
+          Score your own route (GPX or GeoJSON)
+        </button>
+        {importError && <p className="mt-1 text-[11px] text-amber-700">{importError}</p>}
+      </>
+    );
+  }
+
+  return (
+    <div className={`border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg ${compact ? 'rounded-lg mt-3 p-3' : 'rounded-xl mt-4 p-5'}`}>
+      {fileInput}
+      <div className="flex items-center justify-between mb-2">
+        <span className={`flex items-center gap-2 font-semibold text-slate-700 min-w-0 ${textClass}`}>
+          <FileUp className="w-4 h-4 flex-shrink-0" />
+          <span className="truncate">{routeName}</span>
+        </span>
+        <button
+          onClick={onClear}
+          className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+          aria-label="Remove imported route"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {comparison ? (
+        <table className={`w-full ${textClass}`}>
+          <thead>
+            <tr className="text-slate-500 text-left">
+              <th className={`${cellClass} font-medium`}></th>
+              <th className={`${cellClass} font-medium`} style={{ color: IMPORTED_ROUTE_COLOR }}>Yours</th>
+              <th className={`${cellClass} font-medium`} style={{ color: SAFE_ROUTE_COLOR }}>Safe route</th>
+            </tr>
+          </thead>
+          <tbody>
+            {ROWS.map(({ label, format }) => (
+              <tr key={label} className="border-t border-white/30">
+                <td className={`${cellClass} text-slate-600`}>{label}</td>
+                <td className={`${cellClass} font-semibold text-slate-800`}>{format(formatter, comparison.imported)}</td>
+                <td className={`${cellClass} font-semibold text-slate-800`}>
+                  {comparison.safe ? format(formatter, comparison.safe) : '—'}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      ) : scoringError ? (
+        <p className={`text-amber-700 ${textClass}`}>{scoringError}</p>
+      ) : (
+        <p className={`text-slate-500 ${textClass}`}>Scoring your route...</p>
+      )}
+
+      {/* Both columns are scored the same way here, so they can differ from the route cards */}
+      <p className="mt-2 text-[11px] text-slate-500">
+        {comparison && !comparison.safe
+          ? 'Plan a route between the same two points to compare it with the safe route.'
+          : 'Both routes are scored on the incidents shown on the map, at a typical walking pace.'}
+      </p>
+      {importError && <p className="mt-1 text-[11px] text-amber-700">{importError}</p>}
+      <button
+        onClick={() => fileInputRef.current?.click()}
+        className={`mt-2 text-slate-600 underline hover:text-slate-800 ${textClass}`}
+      >
+        Import a different file
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,209 @@
+import React, { useState } from 'react';
+import { Repeat, X, Footprints } from 'lucide-react';
+import { LoopRoute } from '../../services/routingService';
+import { RoutingError } from '../../services/routingErrors';
+import { getLoopRouteColor } from '../../utils/routeColors';
+import Formatter from '../../utils/formatting';
+import OpenRouteInMapsButton from '../OpenRouteInMapsButton';
+import RouteErrorCard from './RouteErrorCard';
+import DemoModeBanner from './DemoModeBanner';
+
+interface LoopPanelProps {
+  hasStart: boolean;
+  loops: LoopRoute[] | null;
+  isFindingLoops: boolean;
+  loopError: RoutingError | null;
+  selectedIndex: number | null;
+  onFind: (targetDistanceM: number) => void;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+  formatter: Formatter;
+  departureTime: Date | null; // For arrival times; now when null
+  compact?: boolean;
+}
+
+type TargetKind = 'distance' | 'duration';
+type Pace = 'walk' | 'run';
+
+// Typical speeds used to turn a duration into a distance, in metres per second
+const PACE_SPEED_MPS: Record<Pace, number> = {
+  walk: 1.4,
+  run: 2.8
+};
+
+const MIN_LOOP_M = 500;
+const MAX_LOOP_M = 50000;
+
+export default function LoopPanel({
+  hasStart,
+  loops,
+  isFindingLoops,
+  loopError,
+  selectedIndex,
+  onFind,
+  onSelect,
+  onClose,
+  formatter,
+  departureTime,
+  compact = false
+}: LoopPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+  const [targetKind, setTargetKind] = useState<TargetKind>('distance');
+  const [distance, setDistance] = useState(5); // In the user's distance unit
+  const [durationMin, setDurationMin] = useState(30);
+  const [pace, setPace] = useState<Pace>('run');
+
+  const textClass = compact ? 'text-xs' : 'text-sm';
+  const distanceUnit = formatter.distanceInputUnit;
+  const targetDistanceM = targetKind === 'distance'
+    ? distance * distanceUnit.meters
+    : durationMin * 60 * PACE_SPEED_MPS[pace];
+  const isTargetValid = targetDistanceM >= MIN_LOOP_M && targetDistanceM <= MAX_LOOP_M;
+
+  const toggleClass = (isActive: boolean) =>
+    `flex-1 rounded-md font-semibold transition ${compact ? 'px-2 py-1 text-xs' : 'px-3 py-1.5 text-sm'} ${isActive ? 'bg-violet-500 text-white' : 'text-slate-600 hover:bg-white/40'}`;
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`w-full flex items-center justify-center gap-2 border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg text-slate-700 font-semibold hover:bg-white/20 transition ${compact ? 'rounded-lg mt-3 px-3 py-2 text-xs' : 'rounded-xl mt-4 px-5 py-3 text-sm'}`}
+      >
+        <Repeat className="w-4 h-4" />
+        Plan a loop from the start point
+      </button>
+    );
+  }
+
+  return (
+    <div className={`border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg ${compact ? 'rounded-lg mt-3 p-3' : 'rounded-xl mt-4 p-5'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className={`flex items-center gap-2 font-semibold text-slate-700 ${textClass}`}>
+          <Repeat className="w-4 h-4" />
+          Loop
+        </span>
+        <button
+          onClick={() => {
+            setIsOpen(false);
+            onClose();
+          }}
+          className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+          aria-label="Close loop planner"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Target: distance, or duration at a pace */}
+      <div className="flex gap-1 bg-white/20 border border-white/30 rounded-lg p-1 mb-2">
+        <button onClick={() => setTargetKind('distance')} className={toggleClass(targetKind === 'distance')}>
+          Distance
+        </button>
+        <button onClick={() => setTargetKind('duration')} className={toggleClass(targetKind === 'duration')}>
+          Duration
+        </button>
+      </div>
+
+      {targetKind === 'distance' ? (
+        <label className={`flex items-center justify-between gap-2 text-slate-700 ${textClass}`}>
+          Target distance
+          <span className="flex items-center gap-1">
+            <input
+              type="number"
+              min={0.5}
+              max={Math.floor(MAX_LOOP_M / distanceUnit.meters)}
+              step={0.5}
+              value={distance}
+              onChange={(e) => setDistance(Number(e.target.value))}
+              className="w-20 bg-white/40 border border-slate-300 rounded-md px-2 py-1 text-slate-800"
+            />
+            {distanceUnit.label}
+          </span>
+        </label>
+      ) : (
+        <div className="space-y-2">
+          <label className={`flex items-center justify-between gap-2 text-slate-700 ${textClass}`}>
+            Target duration
+            <span className="flex items-center gap-1">
+              <input
+                type="number"
+                min={5}
+                max={300}
+                step={5}
+                value={durationMin}
+                onChange={(e) => setDurationMin(Number(e.target.value))}
+                className="w-20 bg-white/40 border border-slate-300 rounded-md px-2 py-1 text-slate-800"
+              />
+              min
+            </span>
+          </label>
+          <div className="flex gap-1 bg-white/20 border border-white/30 rounded-lg p-1">
+            <button onClick={() => setPace('walk')} className={toggleClass(pace === 'walk')}>Walking</button>
+            <button onClick={() => setPace('run')} className={toggleClass(pace === 'run')}>Running</button>
+          </div>
+          <p className="text-[11px] text-slate-500">
+            About {formatter.distance(targetDistanceM)} at a typical {pace === 'walk' ? 'walking' : 'running'} pace
+          </p>
+        </div>
+      )}
+
+      <button
+        onClick={() => onFind(targetDistanceM)}
+        disabled={!hasStart || !isTargetValid || isFindingLoops}
+        className={`w-full mt-3 flex items-center justify-center gap-2 bg-violet-500 text-white font-semibold hover:bg-violet-600 transition disabled:opacity-50 ${compact ? 'rounded-md px-3 py-2 text-xs' : 'rounded-lg px-4 py-2 text-sm'}`}
+      >
+        <Footprints className="w-4 h-4" />
+        {isFindingLoops ? 'Finding loops...' : 'Find safe loops'}
+      </button>
+      {!hasStart && <p className="mt-1 text-[11px] text-slate-500">Choose a start point first.</p>}
+      {hasStart && !isTargetValid && <p className="mt-1 text-[11px] text-amber-700">Pick a loop between {formatter.distance(MIN_LOOP_M)} and {formatter.distance(MAX_LOOP_M)}.</p>}
+
+      {loopError && (
+        <div className="mt-3">
+          <RouteErrorCard error={loopError} onRetry={() => onFind(targetDistanceM)} compact />
+        </div>
+      )}
+
+      {/* Loops, safest first */}
+      {loops && !loopError && (
+        <div className="mt-3 space-y-2">
+          {loops.some((loop) => loop.isDemo) && (
+            <DemoModeBanner onRetry={() => onFind(targetDistanceM)} compact />
+          )}
+          {loops.map((loop, index) => {
+            const stats = loop.route.route_stats;
+            const isSelected = index === selectedIndex;
+            return (
+              <div
+                key={loop.bearing}
+                onClick={() => onSelect(index)}
+                className={`flex items-center gap-2 border rounded-lg cursor-pointer transition ${compact ? 'p-2' : 'p-3'} ${isSelected ? 'border-violet-500 bg-violet-500/10' : 'border-white/30 bg-white/20 hover:bg-white/30'}${loop.isDemo ? ' opacity-50 grayscale' : ''}`}
+              >
+                <span
+                  className="flex-shrink-0 w-3 h-3 rounded-full"
+                  style={{ backgroundColor: getLoopRouteColor(index) }}
+                />
+                <div className={`flex-1 ${textClass}`}>
+                  <p className="font-semibold text-slate-800">
+                    {formatter.distance(stats.total_distance_m)}
+                    <span className="font-normal text-slate-500">
+                      {' '}· {formatter.duration(stats.total_time_s)} walking · {formatter.arrival(stats.total_time_s, departureTime)}
+                    </span>
+                  </p>
+                  <p className="text-slate-600">
+                    {formatter.safetyScore(stats.safety_score)} · {formatter.number(stats.crime_incidents_nearby)} incidents nearby
+                  </p>
+                </div>
+                {!loop.isDemo && (
+                  <div className="flex-shrink-0" onClick={(e) => e.stopPropagation()}>
+                    <OpenRouteInMapsButton geojson={loop.route.route_geojson} routeType="loop" />
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,125 @@
+import React from 'react';
+import { SweepRoute } from '../../services/routingService';
+import { getSweepRouteColor } from '../../utils/routeColors';
+import Formatter from '../../utils/formatting';
+
+interface ParetoChartProps {
+  routes: SweepRoute[]; // Shortest first
+  selectedIndex: number | null;
+  onSelect: (index: number) => void;
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+const WIDTH = 300;
+const PADDING = { top: 12, right: 14, bottom: 30, left: 38 };
+
+// Map a value onto [0, 1] within a range, centring it when the range is empty
+function normalize(value: number, min: number, max: number): number {
+  return max > min ? (value - min) / (max - min) : 0.5;
+}
+
+function formatWeights(weights: number[]): string {
+  return weights.map((weight) => weight.toFixed(2)).join(', ');
+}
+
+export default function ParetoChart({ routes, selectedIndex, onSelect, formatter, compact = false }: ParetoChartProps) {
+  const height = compact ? 150 : 190;
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = height - PADDING.top - PADDING.bottom;
+
+  const distances = routes.map(({ route }) => route.route_stats.total_distance_m);
+  const incidents = routes.map(({ route }) => route.route_stats.crime_incidents_nearby);
+  const [minDistance, maxDistance] = [Math.min(...distances), Math.max(...distances)];
+  const [minIncidents, maxIncidents] = [Math.min(...incidents), Math.max(...incidents)];
+
+  const points = routes.map((sweepRoute, index) => ({
+    index,
+    sweepRoute,
+    x: PADDING.left + normalize(distances[index], minDistance, maxDistance) * plotWidth,
+    // Fewer incidents plots higher, so the best trade-offs sit top-left
+    y: PADDING.top + normalize(incidents[index], minIncidents, maxIncidents) * plotHeight
+  }));
+
+  const frontier = points
+    .filter(({ sweepRoute }) => sweepRoute.isParetoOptimal)
+    .map(({ x, y }) => `${x},${y}`)
+    .join(' ');
+
+  const axisLabelClass = compact ? 'text-[9px]' : 'text-[10px]';
+
+  return (
+    <svg
+      viewBox={`0 0 ${WIDTH} ${height}`}
+      className="w-full h-auto select-none"
+      role="img"
+      aria-label="Distance versus incidents nearby for each route found"
+    >
+      {/* Axes */}
+      <line x1={PADDING.left} y1={PADDING.top} x2={PADDING.left} y2={height - PADDING.bottom} className="stroke-slate-400" />
+      <line x1={PADDING.left} y1={height - PADDING.bottom} x2={WIDTH - PADDING.right} y2={height - PADDING.bottom} className="stroke-slate-400" />
+
+      <text x={PADDING.left} y={height - PADDING.bottom + 12} className={`fill-slate-500 ${axisLabelClass}`} textAnchor="start">
+        {formatter.distance(minDistance)}
+      </text>
+      <text x={WIDTH - PADDING.right} y={height - PADDING.bottom + 12} className={`fill-slate-500 ${axisLabelClass}`} textAnchor="end">
+        {formatter.distance(maxDistance)}
+      </text>
+      <text x={PADDING.left + plotWidth / 2} y={height - 4} className={`fill-slate-600 ${axisLabelClass}`} textAnchor="middle">
+        Distance →
+      </text>
+
+      <text x={PADDING.left - 6} y={PADDING.top + 4} className={`fill-slate-500 ${axisLabelClass}`} textAnchor="end">
+        {minIncidents}
+      </text>
+      <text x={PADDING.left - 6} y={height - PADDING.bottom} className={`fill-slate-500 ${axisLabelClass}`} textAnchor="end">
+        {maxIncidents}
+      </text>
+      <text
+        x={10}
+        y={PADDING.top + plotHeight / 2}
+        className={`fill-slate-600 ${axisLabelClass}`}
+        textAnchor="middle"
+        transform={`rotate(-90 10 ${PADDING.top + plotHeight / 2})`}
+      >
+        Incidents
+      </text>
+
+      {/* Pareto frontier */}
+      {frontier && (
+        <polyline points={frontier} fill="none" className="stroke-slate-400" strokeDasharray="4 3" />
+      )}
+
+      {/* One point per distinct route */}
+      {points.map(({ index, sweepRoute, x, y }) => {
+        const isSelected = index === selectedIndex;
+        const stats = sweepRoute.route.route_stats;
+        return (
+          <g
+            key={index}
+            onClick={() => onSelect(index)}
+            className="cursor-pointer"
+            role="button"
+            aria-label={`Select route ${index + 1}`}
+            aria-pressed={isSelected}
+          >
+            <title>
+              {`${formatter.distance(stats.total_distance_m)} · ${formatter.number(stats.crime_incidents_nearby)} incidents nearby\nCrime weight ${formatWeights(sweepRoute.crimeWeights)}`}
+            </title>
+            {/* Larger invisible target so small points are easy to tap */}
+            <circle cx={x} cy={y} r={14} fill="transparent" />
+            <circle
+              cx={x}
+              cy={y}
+              r={isSelected ? 8 : 6}
+              fill={getSweepRouteColor(index, points.length)}
+              fillOpacity={sweepRoute.isParetoOptimal ? 1 : 0.45}
+              stroke={isSelected ? '#1E293B' : 'white'}
+              strokeWidth={isSelected ? 2.5 : 1.5}
+            />
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
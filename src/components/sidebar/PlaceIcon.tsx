@@ -0,0 +1,18 @@
+import React from 'react';
+import { Briefcase, Clock, Dumbbell, Home, Star } from 'lucide-react';
+
+interface PlaceIconProps {
+  name?: string; // Saved place name; recent places have none
+  className?: string;
+}
+
+// Familiar names get a matching icon, anything else a star
+export default function PlaceIcon({ name, className = 'w-4 h-4' }: PlaceIconProps) {
+  if (name === undefined) return <Clock className={className} />;
+
+  const key = name.trim().toLowerCase();
+  if (key === 'home') return <Home className={className} />;
+  if (key === 'work' || key === 'office') return <Briefcase className={className} />;
+  if (key === 'gym') return <Dumbbell className={className} />;
+  return <Star className={className} />;
+}
@@ -0,0 +1,97 @@
+import React from 'react';
+import { AlertTriangle, WifiOff, Timer, MapPinOff, ServerCrash, RotateCw } from 'lucide-react';
+import { RoutingError, RoutingErrorKind } from '../../services/routingErrors';
+
+interface RouteErrorCardProps {
+  error: RoutingError;
+  onRetry: () => void;
+  compact?: boolean;
+}
+
+interface ErrorDescription {
+  title: string;
+  message: string;
+  action: string;
+  Icon: React.ComponentType<{ className?: string }>;
+}
+
+// What went wrong and what the person can do about it, per kind of failure
+function describeError(error: RoutingError): ErrorDescription {
+  const descriptions: Record<RoutingErrorKind, ErrorDescription> = {
+    network: {
+      title: 'Can\'t reach Ventr',
+      message: 'We couldn\'t connect to the routing service.',
+      action: 'Check your internet connection, then try again.',
+      Icon: WifiOff
+    },
+    timeout: {
+      title: 'Routing is taking too long',
+      message: 'The routing service didn\'t respond in time.',
+      action: 'Try again in a moment. Shorter trips or fewer stops respond faster.',
+      Icon: Timer
+    },
+    validation: {
+      title: 'These points can\'t be routed',
+      message: error.message,
+      action: 'Move the start, stops or destination onto a walkable street in Toronto.',
+      Icon: MapPinOff
+    },
+    server: {
+      title: 'Routing service problem',
+      message: `The routing service hit an error${error.status ? ` (HTTP ${error.status})` : ''}.`,
+      action: error.retryable
+        ? 'This is usually temporary. Try again shortly.'
+        : 'The routing service address may be misconfigured.',
+      Icon: ServerCrash
+    },
+    'no-route': {
+      title: 'No walking route found',
+      message: 'We couldn\'t find a walking route between these points.',
+      action: 'Move a point closer to a street, or allow a longer detour in route preferences.',
+      Icon: MapPinOff
+    },
+    'invalid-response': {
+      title: 'Unexpected response',
+      message: 'The routing service sent data we couldn\'t read.',
+      action: 'The service may be updating. Try planning the route again later.',
+      Icon: AlertTriangle
+    },
+    unexpected: {
+      title: 'Something went wrong',
+      message: 'Ventr hit an unexpected problem while calculating this route.',
+      action: 'Try again, or reload the page if it keeps happening.',
+      Icon: AlertTriangle
+    }
+  };
+
+  return descriptions[error.kind];
+}
+
+export default function RouteErrorCard({ error, onRetry, compact = false }: RouteErrorCardProps) {
+  const { title, message, action, Icon } = describeError(error);
+
+  return (
+    <div className={`bg-red-500/10 border border-red-500/30 ${compact ? 'rounded-lg p-3' : 'rounded-2xl p-6'}`}>
+      <div className={`flex items-start ${compact ? 'space-x-3' : 'space-x-5'}`}>
+        <div className={`flex-shrink-0 bg-red-500 rounded-full flex items-center justify-center ${compact ? 'w-10 h-10' : 'w-16 h-16'}`}>
+          <Icon className={compact ? 'w-5 h-5 text-white' : 'w-8 h-8 text-white'} />
+        </div>
+        <div className="flex-1">
+          <h3 className={`font-bold text-slate-800 ${compact ? 'text-base mb-1' : 'text-xl mb-2'}`}>{title}</h3>
+          <p className={`text-red-700 ${compact ? 'text-xs' : ''}`} title={error.message}>{message}</p>
+          <p className={`text-slate-600 mt-1 ${compact ? 'text-xs' : 'text-sm'}`}>{action}</p>
+          {error.retryable && (
+            <button
+              onClick={onRetry}
+              className={`mt-3 inline-flex items-center gap-1 bg-white/70 border border-red-500/30 text-red-700 font-semibold hover:bg-white transition ${compact ? 'px-2 py-1 rounded-md text-xs' : 'px-3 py-2 rounded-lg text-sm'}`}
+              aria-label="Retry route calculation"
+            >
+              <RotateCw className="w-4 h-4" />
+              Try again
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,41 @@
+import React from 'react';
+import { RouteStats } from '../../services/routingService';
+import Formatter from '../../utils/formatting';
+
+interface RouteLegsListProps {
+  legs: RouteStats[];
+  accentClassName: string; // Tailwind text colour for the leg numbers
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+// Name the endpoints of each leg: Start → Stop 1 → ... → Destination
+function getLegLabel(index: number, legCount: number): string {
+  const from = index === 0 ? 'Start' : `Stop ${index}`;
+  const to = index === legCount - 1 ? 'Destination' : `Stop ${index + 1}`;
+  return `${from} → ${to}`;
+}
+
+export default function RouteLegsList({ legs, accentClassName, formatter, compact = false }: RouteLegsListProps) {
+  // Single-leg routes are already fully described by the totals
+  if (legs.length < 2) return null;
+
+  return (
+    <div className={`bg-white/20 border border-white/30 ${compact ? 'rounded-md mt-2' : 'rounded-xl mt-4'}`}>
+      {legs.map((leg, index) => (
+        <div
+          key={index}
+          className={`flex items-center justify-between border-b border-white/30 last:border-b-0 ${compact ? 'px-2 py-1 text-xs' : 'px-4 py-2 text-sm'}`}
+        >
+          <span className="text-slate-700 truncate">
+            <span className={`font-bold mr-2 ${accentClassName}`}>{index + 1}</span>
+            {getLegLabel(index, legs.length)}
+          </span>
+          <span className="flex-shrink-0 text-slate-800 font-semibold">
+            {formatter.distance(leg.total_distance_m)} · {formatter.duration(leg.total_time_s)}
+          </span>
+        </div>
+      ))}
+    </div>
+  );
+}
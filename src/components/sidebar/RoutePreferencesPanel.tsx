@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronUp } from 'lucide-react';
+import {
+  RoutingPreferences,
+  CRIME_WEIGHT_RANGE,
+  MAX_DETOUR_FACTOR_RANGE
+} from '../../services/routingService';
+import { DisplaySettings, UnitSystem } from '../../utils/formatting';
+
+interface RoutePreferencesPanelProps {
+  preferences: RoutingPreferences;
+  onChange: (preferences: RoutingPreferences) => void;
+  displaySettings: DisplaySettings;
+  onDisplaySettingsChange: (settings: DisplaySettings) => void;
+  compact?: boolean; // Smaller type and spacing for the mobile layout
+}
+
+// Describe the crime weight in words so the slider means something to people
+function describeCrimeWeight(weight: number): string {
+  if (weight <= 0.05) return 'Shortest path, ignore safety';
+  if (weight <= 0.25) return 'A little extra walking';
+  if (weight <= 0.6) return 'Balanced';
+  return 'Safety first, walk further';
+}
+
+const UNIT_OPTIONS: { units: UnitSystem; label: string }[] = [
+  { units: 'metric', label: 'km' },
+  { units: 'imperial', label: 'mi' }
+];
+
+export default function RoutePreferencesPanel({
+  preferences,
+  onChange,
+  displaySettings,
+  onDisplaySettingsChange,
+  compact = false
+}: RoutePreferencesPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  return (
+    <div className={`border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg overflow-hidden ${compact ? 'rounded-lg mt-3' : 'rounded-xl mt-4'}`}>
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className={`w-full flex items-center justify-between text-slate-700 hover:bg-white/20 transition ${compact ? 'px-3 py-2 text-xs' : 'px-5 py-3 text-sm'}`}
+        aria-expanded={isOpen}
+        aria-label="Toggle route preferences"
+      >
+        <span className="flex items-center gap-2 font-semibold">
+          <SlidersHorizontal className="w-4 h-4" />
+          Route preferences
+        </span>
+        <span className="flex items-center gap-2 text-slate-500">
+          {describeCrimeWeight(preferences.crimeWeight)}
+          {isOpen ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </span>
+      </button>
+
+      {isOpen && (
+        <div className={`border-t border-slate-300 space-y-4 ${compact ? 'px-3 py-3' : 'px-5 py-4'}`}>
+          {/* Safety vs. distance trade-off */}
+          <label className="block">
+            <div className="flex items-center justify-between mb-1">
+              <span className={`font-semibold text-slate-800 ${compact ? 'text-xs' : 'text-sm'}`}>
+                Extra walking for safety
+              </span>
+              <span className="text-xs text-emerald-700 font-medium">
+                {describeCrimeWeight(preferences.crimeWeight)}
+              </span>
+            </div>
+            <input
+              type="range"
+              min={CRIME_WEIGHT_RANGE.min}
+              max={CRIME_WEIGHT_RANGE.max}
+              step={CRIME_WEIGHT_RANGE.step}
+              value={preferences.crimeWeight}
+              onChange={(e) => onChange({ ...preferences, crimeWeight: Number(e.target.value) })}
+              className="w-full accent-emerald-500"
+              aria-label="How much extra walking to accept for safety"
+            />
+            <div className="flex justify-between text-[11px] text-slate-500">
+              <span>Shorter</span>
+              <span>Safer</span>
+            </div>
+          </label>
+
+          {/* Maximum detour */}
+          <label className="block">
+            <div className="flex items-center justify-between mb-1">
+              <span className={`font-semibold text-slate-800 ${compact ? 'text-xs' : 'text-sm'}`}>
+                Maximum detour
+              </span>
+              <span className="text-xs text-slate-600 font-medium">
+                up to {preferences.maxDetourFactor.toFixed(1)}× shortest
+              </span>
+            </div>
+            <input
+              type="range"
+              min={MAX_DETOUR_FACTOR_RANGE.min}
+              max={MAX_DETOUR_FACTOR_RANGE.max}
+              step={MAX_DETOUR_FACTOR_RANGE.step}
+              value={preferences.maxDetourFactor}
+              onChange={(e) => onChange({ ...preferences, maxDetourFactor: Number(e.target.value) })}
+              className="w-full accent-cyan-500"
+              aria-label="Maximum detour compared to the shortest route"
+            />
+          </label>
+
+          {/* Display units */}
+          <div className="flex items-center justify-between">
+            <span className={`font-semibold text-slate-800 ${compact ? 'text-xs' : 'text-sm'}`}>
+              Units
+            </span>
+            <div className="flex gap-1 bg-white/20 border border-white/30 rounded-lg p-1">
+              {UNIT_OPTIONS.map(({ units, label }) => (
+                <button
+                  key={units}
+                  onClick={() => onDisplaySettingsChange({ ...displaySettings, units })}
+                  className={`rounded-md px-2 py-0.5 text-xs font-semibold transition ${displaySettings.units === units ? 'bg-slate-700 text-white' : 'text-slate-600 hover:bg-white/40'}`}
+                  aria-pressed={displaySettings.units === units}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
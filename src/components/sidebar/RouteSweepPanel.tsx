@@ -0,0 +1,103 @@
+import React from 'react';
+import { ChartScatter, X } from 'lucide-react';
+import { RouteSweep, DEFAULT_SWEEP_CRIME_WEIGHTS } from '../../services/routingService';
+import { RoutingError } from '../../services/routingErrors';
+import Formatter from '../../utils/formatting';
+import ParetoChart from './ParetoChart';
+import RouteErrorCard from './RouteErrorCard';
+import DemoModeBanner from './DemoModeBanner';
+
+interface RouteSweepPanelProps {
+  sweep: RouteSweep | null;
+  isSweeping: boolean;
+  sweepError: RoutingError | null;
+  selectedIndex: number | null;
+  onExplore: () => void;
+  onSelect: (index: number) => void;
+  onClose: () => void;
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+export default function RouteSweepPanel({
+  sweep,
+  isSweeping,
+  sweepError,
+  selectedIndex,
+  onExplore,
+  onSelect,
+  onClose,
+  formatter,
+  compact = false
+}: RouteSweepPanelProps) {
+  const textClass = compact ? 'text-xs' : 'text-sm';
+
+  if (sweepError) {
+    return <RouteErrorCard error={sweepError} onRetry={onExplore} compact={compact} />;
+  }
+
+  if (!sweep) {
+    return (
+      <button
+        onClick={onExplore}
+        disabled={isSweeping}
+        className={`w-full flex items-center justify-center gap-2 bg-white/20 border border-white/30 text-slate-700 font-semibold hover:bg-white/40 transition disabled:opacity-60 ${compact ? 'rounded-lg px-3 py-2 text-xs' : 'rounded-xl px-4 py-3 text-sm'}`}
+      >
+        <ChartScatter className="w-4 h-4" />
+        {isSweeping
+          ? `Trying ${DEFAULT_SWEEP_CRIME_WEIGHTS.length} safety levels...`
+          : 'Explore distance vs. safety trade-offs'}
+      </button>
+    );
+  }
+
+  const selected = selectedIndex !== null ? sweep.routes[selectedIndex] : null;
+
+  return (
+    <div className={`bg-white/20 border border-white/30 ${compact ? 'rounded-lg p-3' : 'rounded-2xl p-5'}`}>
+      <div className="flex items-start justify-between mb-2">
+        <div>
+          <h3 className={`font-bold text-slate-800 ${compact ? 'text-sm' : 'text-lg'}`}>
+            {sweep.routes.length} distinct route{sweep.routes.length === 1 ? '' : 's'}
+          </h3>
+          <p className={`text-slate-600 ${textClass}`}>Tap a point to show that route. Faded points are beaten on both counts.</p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+          aria-label="Close trade-off explorer"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {sweep.isDemo && (
+        <div className="mb-2">
+          <DemoModeBanner onRetry={onExplore} compact={compact} />
+        </div>
+      )}
+
+      {/* Sample routes stay visible but greyed, as on the route cards */}
+      <div className={sweep.isDemo ? 'opacity-50 grayscale' : undefined}>
+        <ParetoChart routes={sweep.routes} formatter={formatter} selectedIndex={selectedIndex} onSelect={onSelect} compact={compact} />
+      </div>
+
+      {selected && (
+        <div className={`mt-2 flex flex-wrap gap-x-3 gap-y-1 text-slate-700 ${textClass}${sweep.isDemo ? ' opacity-50 grayscale' : ''}`}>
+          <span className="font-semibold">{formatter.distance(selected.route.route_stats.total_distance_m)}</span>
+          <span>{formatter.duration(selected.route.route_stats.total_time_s)}</span>
+          <span>{formatter.number(selected.route.route_stats.crime_incidents_nearby)} incidents nearby</span>
+          <span className="text-slate-500">
+            crime weight {selected.crimeWeights.map((weight) => weight.toFixed(2)).join(', ')}
+          </span>
+        </div>
+      )}
+
+      {sweep.failedWeights.length > 0 && (
+        <p className={`mt-2 text-amber-700 ${textClass}`}>
+          Couldn&apos;t calculate crime weight {sweep.failedWeights.join(', ')}; those routes may be missing.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,145 @@
+import React, { useState } from 'react';
+import { Plus, X, Pencil, Check } from 'lucide-react';
+import PlacesService, { Place, SavedPlace, RecentPlace } from '../../services/placesService';
+import { shortAddress } from '../../utils/formatting';
+import PlaceIcon from './PlaceIcon';
+
+interface SavedPlacesBarProps {
+  savedPlaces: SavedPlace[];
+  recentPlaces: RecentPlace[];
+  destination: Place | null; // Offered for saving when it isn't saved yet
+  onSelect: (place: Place) => void;
+  onSave: (name: string) => void;
+  onRemove: (id: string) => void;
+  compact?: boolean;
+}
+
+const SUGGESTED_NAMES = ['Home', 'Work', 'Gym'];
+const MAX_RECENT_CHIPS = 3;
+
+export default function SavedPlacesBar({
+  savedPlaces,
+  recentPlaces,
+  destination,
+  onSelect,
+  onSave,
+  onRemove,
+  compact = false
+}: SavedPlacesBarProps) {
+  const [isNaming, setIsNaming] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [name, setName] = useState('');
+
+  const recentChips = recentPlaces
+    .filter((recent) => !savedPlaces.some((saved) => PlacesService.isSamePlace(saved, recent)))
+    .slice(0, MAX_RECENT_CHIPS);
+  const canSaveDestination =
+    !!destination && !savedPlaces.some((saved) => PlacesService.isSamePlace(saved, destination));
+
+  if (savedPlaces.length === 0 && recentChips.length === 0 && !canSaveDestination) return null;
+
+  const chipClass = `inline-flex items-center gap-1.5 max-w-[12rem] rounded-full border border-white/30 bg-white/20 text-slate-700 font-medium hover:bg-white/40 transition ${compact ? 'px-2.5 py-1 text-xs' : 'px-3 py-1.5 text-sm'}`;
+
+  const save = (placeName: string) => {
+    if (!placeName.trim()) return;
+    onSave(placeName);
+    setIsNaming(false);
+    setName('');
+  };
+
+  return (
+    <div className={compact ? 'mt-3' : 'mt-4'}>
+      <div className="flex flex-wrap items-center gap-2">
+        {savedPlaces.map((place) => (
+          <span key={place.id} className="inline-flex items-center">
+            <button onClick={() => onSelect(place)} className={chipClass} title={place.address}>
+              <PlaceIcon name={place.name} className="w-3.5 h-3.5 flex-shrink-0" />
+              <span className="truncate">{place.name}</span>
+            </button>
+            {isEditing && (
+              <button
+                onClick={() => onRemove(place.id)}
+                className="-ml-1 w-5 h-5 rounded-full bg-slate-400/30 hover:bg-red-500 hover:text-white text-slate-600 flex items-center justify-center transition"
+                aria-label={`Remove ${place.name}`}
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </span>
+        ))}
+
+        {!isEditing && recentChips.map((place) => (
+          <button key={place.usedAt} onClick={() => onSelect(place)} className={chipClass} title={place.address}>
+            <PlaceIcon className="w-3.5 h-3.5 flex-shrink-0 text-slate-500" />
+            <span className="truncate">{shortAddress(place.address)}</span>
+          </button>
+        ))}
+
+        {canSaveDestination && !isNaming && !isEditing && (
+          <button onClick={() => setIsNaming(true)} className={`${chipClass} border-dashed`}>
+            <Plus className="w-3.5 h-3.5" />
+            Save destination
+          </button>
+        )}
+
+        {savedPlaces.length > 0 && !isNaming && (
+          <button
+            onClick={() => setIsEditing(!isEditing)}
+            className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+            aria-label={isEditing ? 'Done editing saved places' : 'Edit saved places'}
+          >
+            {isEditing ? <Check className="w-4 h-4" /> : <Pencil className="w-4 h-4" />}
+          </button>
+        )}
+      </div>
+
+      {isNaming && destination && (
+        <div className={`mt-2 border border-white/30 bg-white/20 ${compact ? 'rounded-lg p-2' : 'rounded-xl p-3'}`}>
+          <p className={`text-slate-600 truncate mb-2 ${compact ? 'text-xs' : 'text-sm'}`} title={destination.address}>
+            Save {shortAddress(destination.address)} as
+          </p>
+          <div className="flex flex-wrap gap-1 mb-2">
+            {SUGGESTED_NAMES.map((suggested) => (
+              <button key={suggested} onClick={() => save(suggested)} className={chipClass}>
+                <PlaceIcon name={suggested} className="w-3.5 h-3.5" />
+                {suggested}
+              </button>
+            ))}
+          </div>
+          <form
+            onSubmit={(e) => {
+              e.preventDefault();
+              save(name);
+            }}
+            className="flex gap-2"
+          >
+            <input
+              type="text"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="Or another name"
+              maxLength={30}
+              autoFocus
+              className={`flex-1 min-w-0 bg-white/40 border border-slate-300 rounded-md px-2 py-1 text-slate-800 ${compact ? 'text-xs' : 'text-sm'}`}
+            />
+            <button
+              type="submit"
+              disabled={!name.trim()}
+              className={`rounded-md bg-slate-700 text-white font-semibold hover:bg-slate-800 transition disabled:opacity-50 ${compact ? 'px-2 py-1 text-xs' : 'px-3 py-1 text-sm'}`}
+            >
+              Save
+            </button>
+            <button
+              type="button"
+              onClick={() => setIsNaming(false)}
+              className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+              aria-label="Cancel saving place"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  );
+}
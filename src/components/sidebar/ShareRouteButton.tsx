@@ -0,0 +1,52 @@
+import React, { useEffect, useState } from 'react';
+import { Check, Share2 } from 'lucide-react';
+
+interface ShareRouteButtonProps {
+  url: string;
+  compact?: boolean;
+}
+
+type ShareState = 'idle' | 'copied' | 'failed';
+
+export default function ShareRouteButton({ url, compact = false }: ShareRouteButtonProps) {
+  const [state, setState] = useState<ShareState>('idle');
+
+  // Let the confirmation fade back to the normal label
+  useEffect(() => {
+    if (state === 'idle') return;
+    const timeout = setTimeout(() => setState('idle'), 2500);
+    return () => clearTimeout(timeout);
+  }, [state]);
+
+  const share = async () => {
+    // Phones get the native share sheet; elsewhere the link goes on the clipboard
+    if (typeof navigator.share === 'function') {
+      try {
+        await navigator.share({ title: 'Walking route', text: 'Here is the safe walking route I planned', url });
+        return;
+      } catch (error) {
+        // Closing the share sheet isn't a failure
+        if (error instanceof DOMException && error.name === 'AbortError') return;
+      }
+    }
+
+    try {
+      await navigator.clipboard.writeText(url);
+      setState('copied');
+    } catch (error) {
+      console.warn('⚠️ Could not copy share link:', error);
+      setState('failed');
+    }
+  };
+
+  return (
+    <button
+      onClick={share}
+      className={`inline-flex items-center gap-2 bg-white/20 border border-white/30 text-slate-700 font-semibold hover:bg-white/40 transition ${compact ? 'px-2 py-1 rounded-md text-xs' : 'px-3 py-1.5 rounded-lg text-sm'}`}
+      title={url}
+    >
+      {state === 'copied' ? <Check className="w-4 h-4 text-emerald-600" /> : <Share2 className="w-4 h-4" />}
+      {state === 'copied' ? 'Link copied' : state === 'failed' ? "Couldn't copy link" : 'Share'}
+    </button>
+  );
+}
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { History, X, RefreshCw, Eye, Trash2 } from 'lucide-react';
+import { TripHistoryEntry, TripPoint, TripRun } from '../../services/tripHistoryService';
+import Formatter, { shortAddress } from '../../utils/formatting';
+import { describeTimeWindow } from '../../utils/departureTime';
+import { SAFE_ROUTE_COLOR } from '../../utils/routeColors';
+
+interface TripHistoryPanelProps {
+  entries: TripHistoryEntry[];
+  onRerun: (entry: TripHistoryEntry) => void;
+  onReplay: (entry: TripHistoryEntry) => void; // Shows the stored routes without a request
+  onRemove: (key: string) => void;
+  formatter: Formatter;
+  compact?: boolean;
+}
+
+const SPARKLINE_WIDTH = 72;
+const SPARKLINE_HEIGHT = 20;
+
+function describePoint(point: TripPoint): string {
+  return point.address ? shortAddress(point.address) : `${point.lat.toFixed(4)}, ${point.lng.toFixed(4)}`;
+}
+
+// Trips to the same places are kept apart by the parameters they were planned with
+function describeParameters({ preferences, departureTime }: TripHistoryEntry): string {
+  const parts = [
+    `Crime weight ${preferences.crimeWeight.toFixed(2)}`,
+    `detour up to ${preferences.maxDetourFactor.toFixed(1)}×`
+  ];
+  if (departureTime) parts.push(describeTimeWindow(new Date(departureTime)));
+  return parts.join(' · ');
+}
+
+// Safe-route score per run, scaled to the runs' own range so small changes still show
+function ScoreSparkline({ runs }: { runs: TripRun[] }) {
+  const scores = runs.map((run) => run.safeStats.safety_score);
+  const min = Math.min(...scores);
+  const range = Math.max(...scores) - min || 1;
+  const points = scores.map((score, index) => {
+    const x = (index / (scores.length - 1)) * SPARKLINE_WIDTH;
+    const y = SPARKLINE_HEIGHT - 2 - ((score - min) / range) * (SPARKLINE_HEIGHT - 4);
+    return `${x.toFixed(1)},${y.toFixed(1)}`;
+  });
+
+  return (
+    <svg width={SPARKLINE_WIDTH} height={SPARKLINE_HEIGHT} className="flex-shrink-0" aria-hidden="true">
+      <polyline points={points.join(' ')} fill="none" stroke={SAFE_ROUTE_COLOR} strokeWidth={2} strokeLinejoin="round" />
+    </svg>
+  );
+}
+
+export default function TripHistoryPanel({
+  entries,
+  onRerun,
+  onReplay,
+  onRemove,
+  formatter,
+  compact = false
+}: TripHistoryPanelProps) {
+  const [isOpen, setIsOpen] = useState(false);
+
+  if (entries.length === 0) return null;
+
+  const textClass = compact ? 'text-xs' : 'text-sm';
+  const actionClass = `inline-flex items-center gap-1 rounded-md bg-white/20 border border-white/30 font-semibold text-slate-700 hover:bg-white/40 transition ${compact ? 'px-2 py-0.5 text-xs' : 'px-2.5 py-1 text-sm'}`;
+
+  if (!isOpen) {
+    return (
+      <button
+        onClick={() => setIsOpen(true)}
+        className={`w-full flex items-center justify-center gap-2 border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg text-slate-700 font-semibold hover:bg-white/20 transition ${compact ? 'rounded-lg mt-3 px-3 py-2 text-xs' : 'rounded-xl mt-4 px-5 py-3 text-sm'}`}
+      >
+        <History className="w-4 h-4" />
+        Past trips ({entries.length})
+      </button>
+    );
+  }
+
+  return (
+    <div className={`border border-slate-300 bg-white/15 backdrop-blur-xl shadow-lg ${compact ? 'rounded-lg mt-3 p-3' : 'rounded-xl mt-4 p-5'}`}>
+      <div className="flex items-center justify-between mb-3">
+        <span className={`flex items-center gap-2 font-semibold text-slate-700 ${textClass}`}>
+          <History className="w-4 h-4" />
+          Past trips
+        </span>
+        <button
+          onClick={() => setIsOpen(false)}
+          className="p-1 rounded-md text-slate-500 hover:text-slate-800 hover:bg-white/40 transition"
+          aria-label="Close past trips"
+        >
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      <div className="space-y-2 max-h-96 overflow-y-auto sidebar-scroll">
+        {entries.map((entry) => {
+          const { chosenRoute, runs } = entry;
+          const firstScore = runs[0]?.safeStats.safety_score;
+          const latestScore = runs[runs.length - 1]?.safeStats.safety_score;
+          return (
+            <div key={entry.key} className={`border border-white/30 bg-white/20 rounded-lg ${compact ? 'p-2' : 'p-3'}`}>
+              <div className="flex items-start justify-between gap-2">
+                <p className={`font-semibold text-slate-800 min-w-0 ${textClass}`}>
+                  {describePoint(entry.start)} → {describePoint(entry.destination)}
+                  {entry.waypoints.length > 0 && (
+                    <span className="font-normal text-slate-500">
+                      {' '}via {entry.waypoints.length} {entry.waypoints.length === 1 ? 'stop' : 'stops'}
+                    </span>
+                  )}
+                </p>
+                <button
+                  onClick={() => onRemove(entry.key)}
+                  className="flex-shrink-0 p-1 rounded-md text-slate-400 hover:text-red-600 hover:bg-white/40 transition"
+                  aria-label="Remove from past trips"
+                >
+                  <Trash2 className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              <p className={`text-slate-500 ${textClass}`}>{describeParameters(entry)}</p>
+              <p className={`text-slate-600 ${textClass}`}>
+                {chosenRoute.label} · {formatter.distance(chosenRoute.stats.total_distance_m)} ·{' '}
+                {formatter.safetyScore(chosenRoute.stats.safety_score)} · {formatter.timeAgo(entry.updatedAt)}
+              </p>
+
+              {/* Safe-route score across runs */}
+              {runs.length > 1 && (
+                <div className={`flex items-center gap-2 mt-1 text-slate-600 ${textClass}`}>
+                  <ScoreSparkline runs={runs} />
+                  <span>
+                    Safety score {formatter.number(firstScore * 100)} → {formatter.number(latestScore * 100)} over{' '}
+                    {runs.length} runs since {formatter.timeAgo(runs[0].calculatedAt)}
+                  </span>
+                </div>
+              )}
+
+              <div className="flex gap-2 mt-2">
+                <button onClick={() => onRerun(entry)} className={actionClass} title="Calculate this trip again">
+                  <RefreshCw className="w-3.5 h-3.5" />
+                  Re-run
+                </button>
+                <button onClick={() => onReplay(entry)} className={actionClass} title="Show the routes saved with this trip">
+                  <Eye className="w-3.5 h-3.5" />
+                  Show saved
+                </button>
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,97 @@
+// App configuration
+// Loaded at startup from the worker's /api/config, so one static build can target any environment
+
+import type { RoutingProviderKind } from '../services/routingProvider';
+
+// A Mapbox vector tileset and the layer inside it that holds the data
+export interface TilesetConfig {
+  url: string; // e.g. "mapbox://user.tilesetid"
+  sourceLayer: string;
+}
+
+export interface AppConfig {
+  apiBaseUrl: string; // Ventr routing API, without a trailing slash
+  mapboxToken: string;
+  tilesets: {
+    crime: TilesetConfig;
+  };
+  // Show fixed sample routes, clearly labelled, when the routing API is unreachable
+  demoMode: boolean;
+  // "http" calls the live Ventr API, "fixture" replays recordings from public/fixtures/routing
+  routingProvider: RoutingProviderKind;
+}
+
+// Served by worker.js alongside the static export
+const CONFIG_ENDPOINT = '/api/config';
+
+/**
+ * Config from NEXT_PUBLIC_* variables baked in at build time.
+ * Used directly in development and as the fallback when /api/config is unreachable.
+ */
+export function getBuildTimeConfig(): AppConfig {
+  return {
+    apiBaseUrl: process.env.NEXT_PUBLIC_VENTR_API_BASE_URL || 'https://ventr-api.harman-singh.com',
+    mapboxToken: process.env.NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || '',
+    tilesets: {
+      crime: {
+        url: process.env.NEXT_PUBLIC_VENTR_CRIME_TILESET_URL || 'mapbox://harmansingh2003.9x73mbtr',
+        sourceLayer: process.env.NEXT_PUBLIC_VENTR_CRIME_SOURCE_LAYER || 'Assault_Open_Data_-3312730771-3b869h'
+      }
+    },
+    demoMode: process.env.NEXT_PUBLIC_VENTR_DEMO_MODE === 'true',
+    routingProvider: process.env.NEXT_PUBLIC_VENTR_ROUTING_PROVIDER === 'fixture' ? 'fixture' : 'http'
+  };
+}
+
+/**
+ * Load the runtime config. Values missing from the response keep their build-time defaults.
+ */
+export async function loadAppConfig(): Promise<AppConfig> {
+  const fallback = getBuildTimeConfig();
+
+  if (process.env.NODE_ENV === 'development') {
+    console.log(fallback.mapboxToken ? '✅ Using .env config' : '❌ Mapbox access token not set');
+    return fallback;
+  }
+
+  try {
+    const response = await fetch(CONFIG_ENDPOINT);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    const config = mergeConfig(fallback, await response.json());
+    console.log('✅ Runtime config loaded:', { ...config, mapboxToken: config.mapboxToken ? '(set)' : '(missing)' });
+    return config;
+  } catch (error) {
+    console.error('❌ Failed to load runtime config, using build-time defaults:', error);
+    return fallback;
+  }
+}
+
+// Overlay the fields of a /api/config payload that have the right type
+function mergeConfig(base: AppConfig, payload: unknown): AppConfig {
+  if (typeof payload !== 'object' || payload === null) return base;
+  const raw = payload as Record<string, unknown>;
+  const features = (raw.features ?? {}) as Record<string, unknown>;
+  const tilesets = (raw.tilesets ?? {}) as Record<string, unknown>;
+  const crime = (tilesets.crime ?? {}) as Record<string, unknown>;
+
+  const text = (value: unknown, fallback: string) =>
+    typeof value === 'string' && value !== '' ? value : fallback;
+
+  return {
+    apiBaseUrl: text(raw.apiBaseUrl, base.apiBaseUrl).replace(/\/+$/, ''),
+    mapboxToken: text(raw.mapboxToken, base.mapboxToken),
+    tilesets: {
+      crime: {
+        url: text(crime.url, base.tilesets.crime.url),
+        sourceLayer: text(crime.sourceLayer, base.tilesets.crime.sourceLayer)
+      }
+    },
+    demoMode: typeof features.demoMode === 'boolean' ? features.demoMode : base.demoMode,
+    routingProvider:
+      features.routingProvider === 'fixture' || features.routingProvider === 'http'
+        ? features.routingProvider
+        : base.routingProvider
+  };
+}
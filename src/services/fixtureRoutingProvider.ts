@@ -0,0 +1,161 @@
+// Fixture Routing Provider
+// Serves recorded calculate-multiple responses so the app runs without the live backend
+
+import type {
+  ApiRouteRequest,
+  CalculateMultipleRequest,
+  RouteResponse,
+  ShortestRouteRequest
+} from './routingService';
+import type { RoutingProvider } from './routingProvider';
+import { validateCalculateMultipleResponse } from './routeValidation';
+import { NetworkError, NoRouteFoundError } from './routingErrors';
+import { getDistanceKm } from '../utils/geometry';
+
+/**
+ * A recorded request/response pair, stored as JSON under `public/fixtures/routing`
+ */
+export interface RoutingFixture {
+  name: string;
+  request: CalculateMultipleRequest;
+  response: unknown; // Recorded calculate-multiple body, validated like a live response
+}
+
+// index.json lists the fixture files to load, relative to the fixture directory
+interface FixtureManifest {
+  fixtures: string[];
+}
+
+type Coordinates = CalculateMultipleRequest['start'];
+
+const DEFAULT_FIXTURE_URL = '/fixtures/routing';
+const DEFAULT_MATCH_TOLERANCE_M = 150;
+
+class FixtureRoutingProvider implements RoutingProvider {
+  readonly kind = 'fixture';
+  private fixtureUrl: string;
+  private matchToleranceM: number;
+  private fixturesPromise: Promise<RoutingFixture[]> | null = null;
+
+  constructor(
+    fixtureUrl: string = DEFAULT_FIXTURE_URL,
+    matchToleranceM: number = DEFAULT_MATCH_TOLERANCE_M // How far endpoints may be from a recording
+  ) {
+    this.fixtureUrl = fixtureUrl;
+    this.matchToleranceM = matchToleranceM;
+  }
+
+  async calculateMultiple(request: CalculateMultipleRequest, signal?: AbortSignal): Promise<unknown> {
+    const fixture = await this.findFixture(request.start, request.destination, signal);
+    return fixture.response;
+  }
+
+  async calculateShortest(request: ShortestRouteRequest, signal?: AbortSignal): Promise<unknown> {
+    const fixture = await this.findFixture(request.start, request.destination, signal);
+    const recorded = validateCalculateMultipleResponse(fixture.response);
+    if (!recorded.success) throw new NoRouteFoundError(recorded.message || undefined);
+    const response: RouteResponse = {
+      success: recorded.success,
+      message: recorded.message,
+      route_geojson: recorded.shortest_route,
+      route_stats: recorded.shortest_stats,
+      shortest_path_stats: null
+    };
+    return response;
+  }
+
+  async calculateRoute(request: ApiRouteRequest, signal?: AbortSignal): Promise<unknown> {
+    const fixture = await this.findFixture(request.start, request.destination, signal);
+    const recorded = validateCalculateMultipleResponse(fixture.response);
+    if (!recorded.success) throw new NoRouteFoundError(recorded.message || undefined);
+    const response: RouteResponse = {
+      success: recorded.success,
+      message: recorded.message,
+      route_geojson: recorded.safest_route,
+      route_stats: recorded.safest_stats,
+      shortest_path_stats: recorded.shortest_stats
+    };
+    return response;
+  }
+
+  /**
+   * Find the recording whose endpoints are closest to the requested ones.
+   * Crime weight, detour and departure time are ignored - a recording has only one answer.
+   */
+  private async findFixture(
+    start: Coordinates,
+    destination: Coordinates,
+    signal?: AbortSignal
+  ): Promise<RoutingFixture> {
+    const fixtures = await this.loadFixtures(signal);
+    signal?.throwIfAborted();
+
+    let best: { fixture: RoutingFixture; offsetM: number } | null = null;
+    for (const fixture of fixtures) {
+      const startOffsetM = FixtureRoutingProvider.distanceM(start, fixture.request.start);
+      const destinationOffsetM = FixtureRoutingProvider.distanceM(destination, fixture.request.destination);
+      if (startOffsetM > this.matchToleranceM || destinationOffsetM > this.matchToleranceM) continue;
+
+      const offsetM = startOffsetM + destinationOffsetM;
+      if (!best || offsetM < best.offsetM) {
+        best = { fixture, offsetM };
+      }
+    }
+
+    if (!best) {
+      throw new NoRouteFoundError(
+        `No recorded route within ${this.matchToleranceM}m of these endpoints (${fixtures.length} fixtures loaded)`
+      );
+    }
+
+    console.log(`🧪 Matched fixture "${best.fixture.name}" (${Math.round(best.offsetM)}m off)`);
+    return best.fixture;
+  }
+
+  // Load the manifest and every fixture it lists, once. The load is shared, so it runs
+  // without any one caller's signal; a cancelled caller just stops waiting for it.
+  private loadFixtures(signal?: AbortSignal): Promise<RoutingFixture[]> {
+    if (!this.fixturesPromise) {
+      this.fixturesPromise = (async () => {
+        const manifest = await this.fetchJson<FixtureManifest>('index.json');
+        return Promise.all(manifest.fixtures.map((file) => this.fetchJson<RoutingFixture>(file)));
+      })();
+      // Don't keep a failed load around, so the next request tries again
+      this.fixturesPromise.catch(() => {
+        this.fixturesPromise = null;
+      });
+    }
+    return FixtureRoutingProvider.untilAborted(this.fixturesPromise, signal);
+  }
+
+  private async fetchJson<T>(file: string): Promise<T> {
+    const response = await fetch(`${this.fixtureUrl}/${file}`).catch((error) => {
+      throw error instanceof TypeError ? new NetworkError(`Could not load routing fixture ${file}`) : error;
+    });
+    if (!response.ok) {
+      throw new NetworkError(`Could not load routing fixture ${file}: HTTP ${response.status}`);
+    }
+    return response.json();
+  }
+
+  // Settle with `promise`, or reject with an AbortError as soon as `signal` aborts
+  private static untilAborted<T>(promise: Promise<T>, signal?: AbortSignal): Promise<T> {
+    if (!signal) return promise;
+
+    return new Promise((resolve, reject) => {
+      const onAbort = () => reject(new DOMException('Aborted', 'AbortError'));
+      if (signal.aborted) {
+        onAbort();
+        return;
+      }
+      signal.addEventListener('abort', onAbort, { once: true });
+      promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+  }
+
+  private static distanceM(a: Coordinates, b: Coordinates): number {
+    return getDistanceKm(a.latitude, a.longitude, b.latitude, b.longitude) * 1000;
+  }
+}
+
+export default FixtureRoutingProvider;
@@ -0,0 +1,85 @@
+// Geocoding Service
+// Reverse geocoding for addresses and the street names used in directions
+
+import type { LngLat } from './routingService';
+import { isAbortError } from './routingErrors';
+
+// Street lookups in flight at once, to stay well inside the API rate limit
+const MAX_CONCURRENT_LOOKUPS = 4;
+
+class GeocodingService {
+  private accessToken: string;
+  private baseUrl: string;
+  // Street names by rounded coordinate (about 10 m), shared across routes
+  private streetNames = new Map<string, string | null>();
+
+  constructor(accessToken: string, baseUrl: string = 'https://api.mapbox.com/geocoding/v5/mapbox.places') {
+    this.accessToken = accessToken;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Full place name for a point, or null when nothing is found or the request fails
+   */
+  async reverseGeocode(lng: number, lat: number, signal?: AbortSignal): Promise<string | null> {
+    const feature = await this.lookup(lng, lat, {}, signal);
+    return feature?.place_name ?? null;
+  }
+
+  /**
+   * Name of the street nearest a point, e.g. "King Street West"
+   */
+  async getStreetName([lng, lat]: LngLat, signal?: AbortSignal): Promise<string | null> {
+    const key = `${lng.toFixed(4)},${lat.toFixed(4)}`;
+    if (this.streetNames.has(key)) return this.streetNames.get(key)!;
+
+    const feature = await this.lookup(lng, lat, { types: 'address', limit: '1' }, signal);
+    // For address results `text` is the street without the house number
+    const name = feature?.text ?? null;
+    this.streetNames.set(key, name);
+    return name;
+  }
+
+  /**
+   * Street names for several points, a few requests at a time
+   */
+  async getStreetNames(points: LngLat[], signal?: AbortSignal): Promise<(string | null)[]> {
+    const names: (string | null)[] = new Array(points.length).fill(null);
+    let next = 0;
+
+    const worker = async () => {
+      while (next < points.length) {
+        const index = next++;
+        names[index] = await this.getStreetName(points[index], signal);
+      }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(MAX_CONCURRENT_LOOKUPS, points.length) }, worker));
+    return names;
+  }
+
+  private async lookup(
+    lng: number,
+    lat: number,
+    params: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<{ place_name?: string; text?: string } | null> {
+    const query = new URLSearchParams({ ...params, access_token: this.accessToken });
+
+    try {
+      const response = await fetch(`${this.baseUrl}/${lng},${lat}.json?${query}`, { signal });
+      if (!response.ok) {
+        console.warn(`⚠️ Reverse geocoding failed (HTTP ${response.status})`);
+        return null;
+      }
+      const data = await response.json();
+      return data?.features?.[0] ?? null;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      console.error('❌ Reverse geocoding error:', error);
+      return null;
+    }
+  }
+}
+
+export default GeocodingService;
@@ -0,0 +1,198 @@
+// HTTP Routing Provider
+// Calls the live Ventr API with per-attempt timeouts and exponential-backoff retries
+
+import type { ApiRouteRequest, CalculateMultipleRequest, ShortestRouteRequest } from './routingService';
+import type { RoutingProvider } from './routingProvider';
+import {
+  RoutingError,
+  NetworkError,
+  TimeoutError,
+  ApiValidationError,
+  ServerError,
+  NoRouteFoundError,
+  isAbortError
+} from './routingErrors';
+
+// Timeout and exponential-backoff settings for transient failures
+export interface RetryOptions {
+  timeoutMs: number; // Per attempt
+  maxRetries: number; // Retries after the first attempt
+  baseDelayMs: number; // Delay before the first retry, doubled for each one after
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = {
+  timeoutMs: 15000,
+  maxRetries: 2,
+  baseDelayMs: 500,
+  maxDelayMs: 4000
+};
+
+class HttpRoutingProvider implements RoutingProvider {
+  readonly kind = 'http';
+  private baseUrl: string;
+  private retryOptions: RetryOptions;
+
+  constructor(
+    baseUrl: string, // From AppConfig.apiBaseUrl
+    retryOptions: Partial<RetryOptions> = {}
+  ) {
+    this.baseUrl = baseUrl;
+    this.retryOptions = { ...DEFAULT_RETRY_OPTIONS, ...retryOptions };
+  }
+
+  calculateMultiple(request: CalculateMultipleRequest, signal?: AbortSignal): Promise<unknown> {
+    return this.postJson('/api/routing/calculate-multiple', request, signal);
+  }
+
+  calculateShortest(request: ShortestRouteRequest, signal?: AbortSignal): Promise<unknown> {
+    return this.postJson('/api/routing/shortest', request, signal);
+  }
+
+  calculateRoute(request: ApiRouteRequest, signal?: AbortSignal): Promise<unknown> {
+    return this.postJson('/api/routing/calculate', request, signal);
+  }
+
+  /**
+   * POST JSON to the API with a per-attempt timeout, retrying transient failures
+   * (network, timeout, 5xx) with exponential backoff
+   */
+  private async postJson(path: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+    const { maxRetries } = this.retryOptions;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        return await this.postJsonOnce(path, body, signal);
+      } catch (error) {
+        const routingError = isAbortError(error) ? null : RoutingError.from(error);
+        if (!routingError || !routingError.retryable || attempt >= maxRetries) {
+          throw routingError ?? error;
+        }
+
+        const delay = this.getRetryDelay(attempt);
+        console.warn(`🔁 ${path} failed (${routingError.kind}), retrying in ${delay}ms...`);
+        await HttpRoutingProvider.sleep(delay, signal);
+      }
+    }
+  }
+
+  private async postJsonOnce(path: string, body: unknown, signal?: AbortSignal): Promise<unknown> {
+    const { timeoutMs } = this.retryOptions;
+
+    // One controller per attempt so a timeout doesn't abort the caller's signal
+    const controller = new AbortController();
+    let timedOut = false;
+    const timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, timeoutMs);
+    const abortFromCaller = () => controller.abort();
+    signal?.addEventListener('abort', abortFromCaller);
+    if (signal?.aborted) controller.abort();
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(`${this.baseUrl}${path}`, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+          },
+          body: JSON.stringify(body),
+          signal: controller.signal
+        });
+      } catch (error) {
+        // fetch rejects with a TypeError when the request never reaches the server
+        if (error instanceof TypeError) throw new NetworkError(error.message);
+        throw error;
+      }
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error(`❌ ${path} failed:`, response.status, errorText);
+        throw HttpRoutingProvider.errorFromResponse(response.status, errorText);
+      }
+
+      try {
+        return await response.json();
+      } catch (error) {
+        if (isAbortError(error)) throw error;
+        throw new ServerError(response.status, 'Routing service returned a response that is not JSON');
+      }
+    } catch (error) {
+      if (timedOut && isAbortError(error)) {
+        throw new TimeoutError(timeoutMs);
+      }
+      throw error;
+    } finally {
+      clearTimeout(timeout);
+      signal?.removeEventListener('abort', abortFromCaller);
+    }
+  }
+
+  // Exponential backoff with jitter so simultaneous legs don't retry in lockstep
+  private getRetryDelay(attempt: number): number {
+    const { baseDelayMs, maxDelayMs } = this.retryOptions;
+    const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(delay * (0.5 + Math.random() * 0.5));
+  }
+
+  /**
+   * Map an unsuccessful HTTP response to a typed RoutingError
+   */
+  private static errorFromResponse(status: number, body: string): RoutingError {
+    const detail = HttpRoutingProvider.extractErrorDetail(body) || `HTTP ${status}`;
+
+    if (/no (route|path)/i.test(detail)) {
+      return new NoRouteFoundError(detail);
+    }
+    // Any other 404 means the endpoint is missing, usually a wrong apiBaseUrl; retrying won't help
+    if (status === 404) {
+      return new ServerError(status, detail, false);
+    }
+    // Request timeouts and rate limiting are worth retrying like server errors
+    if (status >= 500 || status === 408 || status === 429) {
+      return new ServerError(status, detail);
+    }
+    return new ApiValidationError(status, detail);
+  }
+
+  // FastAPI puts the reason in `detail`, either a string or a list of field errors
+  private static extractErrorDetail(body: string): string {
+    try {
+      const parsed = JSON.parse(body);
+      if (typeof parsed?.detail === 'string') return parsed.detail;
+      if (Array.isArray(parsed?.detail)) {
+        return parsed.detail
+          .map((item: { msg?: string }) => item?.msg)
+          .filter(Boolean)
+          .join('; ');
+      }
+      if (typeof parsed?.message === 'string') return parsed.message;
+    } catch {
+      // Not JSON - fall through to the raw text
+    }
+    return body.trim().slice(0, 200);
+  }
+
+  // Wait before a retry, giving up immediately if the caller cancels
+  private static sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(new DOMException('Aborted', 'AbortError'));
+        return;
+      }
+      const timeout = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      const onAbort = () => {
+        clearTimeout(timeout);
+        reject(new DOMException('Aborted', 'AbortError'));
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+}
+
+export default HttpRoutingProvider;
@@ -0,0 +1,298 @@
+// Isochrone Service
+// How far someone can walk from a point, with and without passing crime hotspots
+
+import type { LngLat, RoutePoint } from './routingService';
+import { RoutingError, ApiValidationError, ServerError, isAbortError } from './routingErrors';
+import { isPointInPolygon } from '../utils/geometry';
+
+export const ISOCHRONE_MINUTES = [5, 10, 15];
+
+export type IsochroneGeometry = GeoJSON.Polygon | GeoJSON.MultiPolygon;
+export type IsochroneCollection = GeoJSON.FeatureCollection<IsochroneGeometry, { contour: number }>;
+export type SafeReachCollection = GeoJSON.FeatureCollection<GeoJSON.Polygon, { minutes: number }>;
+
+export interface SafeReachOptions {
+  maxIncidents: number; // Most incidents allowed within `exposureRadiusM` of any point walked through
+  exposureRadiusM: number;
+  cellSizeM: number; // Resolution of the reach grid
+}
+
+export const DEFAULT_SAFE_REACH_OPTIONS: SafeReachOptions = {
+  maxIncidents: 3,
+  exposureRadiusM: 100,
+  cellSizeM: 50
+};
+
+export const MAX_INCIDENTS_RANGE = { min: 0, max: 20, step: 1 };
+
+export interface ReachSummary {
+  minutes: number;
+  walkableKm2: number; // Inside the plain walking isochrone
+  safeKm2: number; // Reachable without entering a hotspot
+}
+
+export interface SafeReach {
+  walkable: IsochroneCollection;
+  safe: SafeReachCollection;
+  summary: ReachSummary[]; // Ascending minutes
+}
+
+const METRES_PER_DEGREE_LAT = 111320;
+const MAX_GRID_CELLS = 250 * 250;
+
+function isPosition(value: unknown): value is GeoJSON.Position {
+  return (
+    Array.isArray(value) &&
+    value.length >= 2 &&
+    typeof value[0] === 'number' &&
+    typeof value[1] === 'number' &&
+    Math.abs(value[0]) <= 180 &&
+    Math.abs(value[1]) <= 90
+  );
+}
+
+// Closed rings of at least four positions, outer ring first
+function isPolygonCoordinates(value: unknown): value is GeoJSON.Position[][] {
+  return (
+    Array.isArray(value) &&
+    value.length > 0 &&
+    value.every((ring) => Array.isArray(ring) && ring.length >= 4 && ring.every(isPosition))
+  );
+}
+
+function parseIsochroneGeometry(value: unknown): IsochroneGeometry | null {
+  if (typeof value !== 'object' || value === null || !('type' in value) || !('coordinates' in value)) return null;
+  const { type, coordinates } = value;
+  if (type === 'Polygon' && isPolygonCoordinates(coordinates)) {
+    return { type, coordinates };
+  }
+  if (type === 'MultiPolygon' && Array.isArray(coordinates) && coordinates.length > 0 && coordinates.every(isPolygonCoordinates)) {
+    return { type, coordinates };
+  }
+  return null;
+}
+
+// Every contour is drawn and rasterised, so one unreadable feature fails the whole response
+function parseIsochroneCollection(data: unknown, status: number): IsochroneCollection {
+  if (typeof data !== 'object' || data === null || !('features' in data) || !Array.isArray(data.features)) {
+    throw new ServerError(status, 'Isochrone response has no features');
+  }
+
+  const features = data.features.map((feature: unknown, index: number) => {
+    const geometry =
+      typeof feature === 'object' && feature !== null && 'geometry' in feature
+        ? parseIsochroneGeometry(feature.geometry)
+        : null;
+    const properties =
+      typeof feature === 'object' && feature !== null && 'properties' in feature ? feature.properties : null;
+    const contour =
+      typeof properties === 'object' && properties !== null && 'contour' in properties ? properties.contour : null;
+    if (!geometry || typeof contour !== 'number' || !Number.isFinite(contour)) {
+      throw new ServerError(status, `Isochrone feature ${index} has no polygon or contour`);
+    }
+    return { type: 'Feature' as const, geometry, properties: { contour } };
+  });
+  return { type: 'FeatureCollection', features };
+}
+
+class IsochroneService {
+  private accessToken: string;
+  private baseUrl: string;
+
+  constructor(accessToken: string, baseUrl: string = 'https://api.mapbox.com/isochrone/v1/mapbox/walking') {
+    this.accessToken = accessToken;
+    this.baseUrl = baseUrl;
+  }
+
+  /**
+   * Fetch walking isochrone polygons around a point from the Mapbox Isochrone API
+   */
+  async getWalkingIsochrones(
+    point: RoutePoint,
+    minutes: number[] = ISOCHRONE_MINUTES,
+    signal?: AbortSignal
+  ): Promise<IsochroneCollection> {
+    const params = new URLSearchParams({
+      contours_minutes: minutes.join(','),
+      polygons: 'true',
+      access_token: this.accessToken
+    });
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/${point.lng},${point.lat}?${params}`, { signal });
+    } catch (error) {
+      throw isAbortError(error) ? error : RoutingError.from(error);
+    }
+
+    if (!response.ok) {
+      const message = `Isochrone request failed (HTTP ${response.status})`;
+      throw response.status >= 500 || response.status === 429
+        ? new ServerError(response.status, message)
+        : new ApiValidationError(response.status, message);
+    }
+
+    let data: unknown;
+    try {
+      data = await response.json();
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new ServerError(response.status, 'Isochrone response is not valid JSON');
+    }
+    return parseIsochroneCollection(data, response.status);
+  }
+
+  /**
+   * Work out the part of each walking isochrone that can be reached from `start` without
+   * walking through a cell with more than `maxIncidents` nearby. The area is rasterised
+   * into a grid, then flood-filled from the start through safe cells.
+   */
+  static computeSafeReach(
+    walkable: IsochroneCollection,
+    start: RoutePoint,
+    incidents: LngLat[],
+    options: SafeReachOptions = DEFAULT_SAFE_REACH_OPTIONS
+  ): SafeReach {
+    const contours = [...walkable.features].sort((a, b) => a.properties.contour - b.properties.contour);
+    if (contours.length === 0) {
+      return { walkable, safe: { type: 'FeatureCollection', features: [] }, summary: [] };
+    }
+
+    // Local flat projection around the start, fine at city scale
+    const metresPerDegreeLng = METRES_PER_DEGREE_LAT * Math.cos((start.lat * Math.PI) / 180);
+    const polygonsOf = (geometry: IsochroneGeometry) =>
+      geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+
+    // Grid covering the largest contour
+    let [minLng, minLat, maxLng, maxLat] = [start.lng, start.lat, start.lng, start.lat];
+    polygonsOf(contours[contours.length - 1].geometry).forEach((polygon) =>
+      polygon[0].forEach(([lng, lat]) => {
+        minLng = Math.min(minLng, lng);
+        maxLng = Math.max(maxLng, lng);
+        minLat = Math.min(minLat, lat);
+        maxLat = Math.max(maxLat, lat);
+      })
+    );
+
+    const spanX = (maxLng - minLng) * metresPerDegreeLng;
+    const spanY = (maxLat - minLat) * METRES_PER_DEGREE_LAT;
+    // Coarsen the grid for very large areas rather than stall the page
+    const cellSizeM = Math.max(options.cellSizeM, Math.sqrt((spanX * spanY) / MAX_GRID_CELLS));
+    const cols = Math.max(1, Math.ceil(spanX / cellSizeM));
+    const rows = Math.max(1, Math.ceil(spanY / cellSizeM));
+    const cellLng = cellSizeM / metresPerDegreeLng;
+    const cellLat = cellSizeM / METRES_PER_DEGREE_LAT;
+    const cellAreaKm2 = (cellSizeM * cellSizeM) / 1e6;
+
+    const index = (col: number, row: number) => row * cols + col;
+    const centreOf = (col: number, row: number): [number, number] => [
+      minLng + (col + 0.5) * cellLng,
+      minLat + (row + 0.5) * cellLat
+    ];
+
+    // Incidents per cell, then per neighbourhood within the exposure radius
+    const counts = new Uint16Array(cols * rows);
+    incidents.forEach(([lng, lat]) => {
+      const col = Math.floor((lng - minLng) / cellLng);
+      const row = Math.floor((lat - minLat) / cellLat);
+      if (col >= 0 && col < cols && row >= 0 && row < rows) counts[index(col, row)]++;
+    });
+
+    const reachCells = Math.ceil(options.exposureRadiusM / cellSizeM);
+    const isSafe = new Uint8Array(cols * rows);
+    for (let row = 0; row < rows; row++) {
+      for (let col = 0; col < cols; col++) {
+        let exposure = 0;
+        for (let dy = -reachCells; dy <= reachCells; dy++) {
+          for (let dx = -reachCells; dx <= reachCells; dx++) {
+            const c = col + dx;
+            const r = row + dy;
+            if (c < 0 || c >= cols || r < 0 || r >= rows) continue;
+            if ((dx * dx + dy * dy) * cellSizeM * cellSizeM > options.exposureRadiusM * options.exposureRadiusM) continue;
+            exposure += counts[index(c, r)];
+          }
+        }
+        isSafe[index(col, row)] = exposure <= options.maxIncidents ? 1 : 0;
+      }
+    }
+
+    // Minutes of the smallest contour reaching each cell, 0 if none
+    const reachedAt = new Uint16Array(cols * rows);
+    const startCol = Math.min(cols - 1, Math.max(0, Math.floor((start.lng - minLng) / cellLng)));
+    const startRow = Math.min(rows - 1, Math.max(0, Math.floor((start.lat - minLat) / cellLat)));
+    const startIndex = index(startCol, startRow);
+
+    const summary: ReachSummary[] = contours.map((contour) => {
+      const minutes = contour.properties.contour;
+      const polygons = polygonsOf(contour.geometry);
+      const inside = new Uint8Array(cols * rows);
+      let walkableCells = 0;
+      for (let row = 0; row < rows; row++) {
+        for (let col = 0; col < cols; col++) {
+          const centre = centreOf(col, row);
+          if (polygons.some((polygon) => isPointInPolygon(centre, polygon))) {
+            inside[index(col, row)] = 1;
+            walkableCells++;
+          }
+        }
+      }
+
+      // Flood fill from the start through safe cells inside this contour. Starting in a
+      // hotspot means nowhere is reachable while avoiding them.
+      const visited = new Uint8Array(cols * rows);
+      const queue = isSafe[startIndex] ? [startIndex] : [];
+      visited[startIndex] = 1;
+      let safeCells = 0;
+      while (queue.length > 0) {
+        const cell = queue.pop()!;
+        safeCells++;
+        if (!reachedAt[cell]) reachedAt[cell] = minutes;
+        const col = cell % cols;
+        const row = Math.floor(cell / cols);
+        [[1, 0], [-1, 0], [0, 1], [0, -1]].forEach(([dx, dy]) => {
+          const c = col + dx;
+          const r = row + dy;
+          if (c < 0 || c >= cols || r < 0 || r >= rows) return;
+          const next = index(c, r);
+          if (visited[next] || !inside[next] || !isSafe[next]) return;
+          visited[next] = 1;
+          queue.push(next);
+        });
+      }
+
+      return { minutes, walkableKm2: walkableCells * cellAreaKm2, safeKm2: safeCells * cellAreaKm2 };
+    });
+
+    // Merge runs of same-minute cells along each row into rectangles
+    const features: SafeReachCollection['features'] = [];
+    for (let row = 0; row < rows; row++) {
+      let col = 0;
+      while (col < cols) {
+        const minutes = reachedAt[index(col, row)];
+        if (!minutes) {
+          col++;
+          continue;
+        }
+        const runStart = col;
+        while (col < cols && reachedAt[index(col, row)] === minutes) col++;
+
+        const west = minLng + runStart * cellLng;
+        const east = minLng + col * cellLng;
+        const south = minLat + row * cellLat;
+        const north = south + cellLat;
+        features.push({
+          type: 'Feature',
+          geometry: {
+            type: 'Polygon',
+            coordinates: [[[west, south], [east, south], [east, north], [west, north], [west, south]]]
+          },
+          properties: { minutes }
+        });
+      }
+    }
+
+    return { walkable, safe: { type: 'FeatureCollection', features }, summary };
+  }
+}
+
+export default IsochroneService;
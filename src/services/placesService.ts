@@ -0,0 +1,109 @@
+// Places Service
+// Named saved places ("Home", "Work") and recently used destinations, kept in localStorage
+
+import PreferencesService from './preferencesService';
+import { getDistanceKm } from '../utils/geometry';
+
+export interface Place {
+  lng: number;
+  lat: number;
+  address: string;
+}
+
+export interface SavedPlace extends Place {
+  id: string;
+  name: string;
+}
+
+export interface RecentPlace extends Place {
+  usedAt: string; // ISO timestamp
+}
+
+const SAVED_PLACES_KEY = 'ventr:saved-places';
+const RECENT_PLACES_KEY = 'ventr:recent-places';
+const MAX_RECENT_PLACES = 8;
+
+// Picks closer than this are treated as the same place
+const SAME_PLACE_M = 30;
+
+class PlacesService {
+  /**
+   * Saved places in the order they were added
+   */
+  loadSavedPlaces(): SavedPlace[] {
+    const stored = PreferencesService.readJson<Partial<SavedPlace>[]>(SAVED_PLACES_KEY);
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (place): place is SavedPlace =>
+        PlacesService.isPlace(place) && typeof place.id === 'string' && typeof place.name === 'string'
+    );
+  }
+
+  /**
+   * Save a place under a name, replacing any saved place with the same name
+   */
+  savePlace(name: string, place: Place): SavedPlace[] {
+    const trimmed = name.trim();
+    const saved: SavedPlace = {
+      id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+      name: trimmed,
+      lng: place.lng,
+      lat: place.lat,
+      address: place.address
+    };
+    const places = [
+      ...this.loadSavedPlaces().filter((existing) => existing.name.toLowerCase() !== trimmed.toLowerCase()),
+      saved
+    ];
+    PreferencesService.writeJson(SAVED_PLACES_KEY, places);
+    return places;
+  }
+
+  removeSavedPlace(id: string): SavedPlace[] {
+    const places = this.loadSavedPlaces().filter((place) => place.id !== id);
+    PreferencesService.writeJson(SAVED_PLACES_KEY, places);
+    return places;
+  }
+
+  /**
+   * Recent destinations, most recent first
+   */
+  loadRecentPlaces(): RecentPlace[] {
+    const stored = PreferencesService.readJson<Partial<RecentPlace>[]>(RECENT_PLACES_KEY);
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (place): place is RecentPlace => PlacesService.isPlace(place) && typeof place.usedAt === 'string'
+    );
+  }
+
+  /**
+   * Move a destination to the front of the recent list, dropping the oldest past the limit
+   */
+  addRecentPlace(place: Place): RecentPlace[] {
+    const recent: RecentPlace = { lng: place.lng, lat: place.lat, address: place.address, usedAt: new Date().toISOString() };
+    const places = [
+      recent,
+      ...this.loadRecentPlaces().filter((existing) => !PlacesService.isSamePlace(existing, place))
+    ].slice(0, MAX_RECENT_PLACES);
+    PreferencesService.writeJson(RECENT_PLACES_KEY, places);
+    return places;
+  }
+
+  static isSamePlace(a: Place, b: Place): boolean {
+    return a.address === b.address || getDistanceKm(a.lat, a.lng, b.lat, b.lng) * 1000 < SAME_PLACE_M;
+  }
+
+  private static isPlace(value: Partial<Place> | null): boolean {
+    return (
+      typeof value === 'object' &&
+      value !== null &&
+      Number.isFinite(value.lng) &&
+      Number.isFinite(value.lat) &&
+      typeof value.address === 'string'
+    );
+  }
+}
+
+// Export singleton instance
+export const placesService = new PlacesService();
+export default PlacesService;
@@ -0,0 +1,103 @@
+// Preferences Service
+// Persists user settings in localStorage so they survive between sessions
+
+import {
+  RoutingPreferences,
+  DEFAULT_ROUTING_PREFERENCES,
+  CRIME_WEIGHT_RANGE,
+  MAX_DETOUR_FACTOR_RANGE
+} from './routingService';
+import { DisplaySettings, UnitSystem, guessUnitSystem } from '../utils/formatting';
+
+const ROUTING_PREFERENCES_KEY = 'ventr:routing-preferences';
+const DISPLAY_SETTINGS_KEY = 'ventr:display-settings';
+const UNIT_SYSTEMS: UnitSystem[] = ['metric', 'imperial'];
+
+class PreferencesService {
+  /**
+   * Load routing preferences, falling back to defaults for anything missing or invalid
+   */
+  loadRoutingPreferences(): RoutingPreferences {
+    const stored = PreferencesService.readJson<Partial<RoutingPreferences>>(ROUTING_PREFERENCES_KEY);
+    if (!stored) return DEFAULT_ROUTING_PREFERENCES;
+
+    return {
+      crimeWeight: PreferencesService.clampOrDefault(
+        stored.crimeWeight,
+        CRIME_WEIGHT_RANGE.min,
+        CRIME_WEIGHT_RANGE.max,
+        DEFAULT_ROUTING_PREFERENCES.crimeWeight
+      ),
+      maxDetourFactor: PreferencesService.clampOrDefault(
+        stored.maxDetourFactor,
+        MAX_DETOUR_FACTOR_RANGE.min,
+        MAX_DETOUR_FACTOR_RANGE.max,
+        DEFAULT_ROUTING_PREFERENCES.maxDetourFactor
+      )
+    };
+  }
+
+  /**
+   * Save routing preferences
+   */
+  saveRoutingPreferences(preferences: RoutingPreferences): void {
+    PreferencesService.writeJson(ROUTING_PREFERENCES_KEY, preferences);
+  }
+
+  /**
+   * Load display settings. Units default to what is usual for the browser's locale.
+   */
+  loadDisplaySettings(): DisplaySettings {
+    const stored = PreferencesService.readJson<Partial<DisplaySettings>>(DISPLAY_SETTINGS_KEY);
+    const browserLocale = typeof navigator === 'undefined' ? undefined : navigator.language;
+
+    return {
+      units: stored?.units && UNIT_SYSTEMS.includes(stored.units) ? stored.units : guessUnitSystem(browserLocale),
+      ...(typeof stored?.locale === 'string' && { locale: stored.locale })
+    };
+  }
+
+  /**
+   * Save display settings
+   */
+  saveDisplaySettings(settings: DisplaySettings): void {
+    PreferencesService.writeJson(DISPLAY_SETTINGS_KEY, settings);
+  }
+
+  /**
+   * Read a JSON value from localStorage, returning null when unavailable or corrupt
+   */
+  static readJson<T>(key: string): T | null {
+    if (typeof window === 'undefined') return null;
+
+    try {
+      const raw = window.localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as T) : null;
+    } catch (error) {
+      console.warn(`⚠️ Could not read "${key}" from localStorage:`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Write a JSON value to localStorage, ignoring quota and privacy-mode failures
+   */
+  static writeJson(key: string, value: unknown): void {
+    if (typeof window === 'undefined') return;
+
+    try {
+      window.localStorage.setItem(key, JSON.stringify(value));
+    } catch (error) {
+      console.warn(`⚠️ Could not write "${key}" to localStorage:`, error);
+    }
+  }
+
+  private static clampOrDefault(value: unknown, min: number, max: number, fallback: number): number {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return fallback;
+    return Math.min(max, Math.max(min, value));
+  }
+}
+
+// Export singleton instance
+export const preferencesService = new PreferencesService();
+export default PreferencesService;
@@ -0,0 +1,206 @@
+// Route Cache Service
+// Keeps recent route results in memory and persists them in IndexedDB with expiry
+
+import type { ProcessedRoutes, RouteRequest, RoutingPreferences } from './routingService';
+import type { RoutingProviderKind } from './routingProvider';
+import { getTimeBucket } from '../utils/departureTime';
+
+export interface RouteCacheEntry {
+  key: string;
+  routes: ProcessedRoutes;
+  cachedAt: number; // Epoch milliseconds
+  expiresAt: number; // Epoch milliseconds
+}
+
+const DB_NAME = 'ventr-route-cache';
+const DB_VERSION = 1;
+const STORE_NAME = 'routes';
+
+const DEFAULT_TTL_MS = 24 * 60 * 60 * 1000; // Crime data changes slowly, a day is fresh enough
+const STALE_RETENTION_MS = 7 * 24 * 60 * 60 * 1000; // Expired entries stay usable offline for a week
+const MEMORY_LIMIT = 20;
+const COORDINATE_PRECISION = 4; // ~11m, so nearby clicks on the same corner share an entry
+
+class RouteCacheService {
+  private ttlMs: number;
+  private memoryLimit: number;
+  // Map iteration order doubles as recency order (oldest first)
+  private memory = new Map<string, RouteCacheEntry>();
+  private dbPromise: Promise<IDBDatabase | null> | null = null;
+
+  constructor(ttlMs: number = DEFAULT_TTL_MS, memoryLimit: number = MEMORY_LIMIT) {
+    this.ttlMs = ttlMs;
+    this.memoryLimit = memoryLimit;
+  }
+
+  /**
+   * Build a cache key from the provider, rounded endpoints, stops and routing parameters.
+   * Departure times share an entry when they fall in the same hour of the same weekday.
+   * Providers answer the same request differently, so their results are never mixed.
+   */
+  static buildKey(request: RouteRequest, preferences: RoutingPreferences, providerKind: RoutingProviderKind): string {
+    const round = (value: number) => value.toFixed(COORDINATE_PRECISION);
+    const stops = [
+      [request.start_lng, request.start_lat],
+      ...(request.waypoints ?? []).map((point) => [point.lng, point.lat]),
+      [request.end_lng, request.end_lat]
+    ];
+
+    const parts = [
+      providerKind,
+      stops.map(([lng, lat]) => `${round(lng)},${round(lat)}`).join(';'),
+      `cw=${preferences.crimeWeight}`,
+      `md=${preferences.maxDetourFactor}`
+    ];
+    if (request.departure_time) {
+      const { dayOfWeek, hour } = getTimeBucket(new Date(request.departure_time));
+      parts.push(`t=${dayOfWeek}@${hour}`);
+    }
+    return parts.join('|');
+  }
+
+  /**
+   * Look up cached routes. Expired entries are only returned when `allowExpired` is set,
+   * which lets callers fall back to an old result when the network is unavailable.
+   */
+  async get(key: string, { allowExpired = false }: { allowExpired?: boolean } = {}): Promise<RouteCacheEntry | null> {
+    const entry = this.memory.get(key) ?? await this.readEntry(key);
+    if (!entry) return null;
+
+    this.remember(entry);
+
+    if (!allowExpired && entry.expiresAt <= Date.now()) {
+      return null;
+    }
+    return entry;
+  }
+
+  /**
+   * Store routes in memory and IndexedDB
+   */
+  async set(key: string, routes: ProcessedRoutes): Promise<void> {
+    const now = Date.now();
+    const entry: RouteCacheEntry = {
+      key,
+      routes,
+      cachedAt: now,
+      expiresAt: now + this.ttlMs
+    };
+
+    this.remember(entry);
+    await this.writeEntry(entry);
+    await this.pruneStaleEntries();
+  }
+
+  /**
+   * Remove every cached route
+   */
+  async clear(): Promise<void> {
+    this.memory.clear();
+
+    const db = await this.openDatabase();
+    if (!db) return;
+    await RouteCacheService.runRequest(
+      db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).clear()
+    );
+  }
+
+  // Move an entry to the most-recent end, evicting the oldest beyond the limit
+  private remember(entry: RouteCacheEntry): void {
+    this.memory.delete(entry.key);
+    this.memory.set(entry.key, entry);
+
+    while (this.memory.size > this.memoryLimit) {
+      const oldestKey = this.memory.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.memory.delete(oldestKey);
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase | null> {
+    if (this.dbPromise) return this.dbPromise;
+
+    this.dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing or storage disabled - keep working with the memory cache only
+        console.warn('⚠️ Route cache database unavailable:', request.error);
+        resolve(null);
+      };
+    });
+
+    return this.dbPromise;
+  }
+
+  private async readEntry(key: string): Promise<RouteCacheEntry | null> {
+    const db = await this.openDatabase();
+    if (!db) return null;
+
+    try {
+      const entry = await RouteCacheService.runRequest<RouteCacheEntry | undefined>(
+        db.transaction(STORE_NAME, 'readonly').objectStore(STORE_NAME).get(key)
+      );
+      return entry ?? null;
+    } catch (error) {
+      console.warn('⚠️ Could not read cached route:', error);
+      return null;
+    }
+  }
+
+  private async writeEntry(entry: RouteCacheEntry): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    try {
+      await RouteCacheService.runRequest(
+        db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).put(entry)
+      );
+    } catch (error) {
+      console.warn('⚠️ Could not persist cached route:', error);
+    }
+  }
+
+  private async pruneStaleEntries(): Promise<void> {
+    const db = await this.openDatabase();
+    if (!db) return;
+
+    const cutoff = Date.now() - STALE_RETENTION_MS;
+    const request = db.transaction(STORE_NAME, 'readwrite').objectStore(STORE_NAME).openCursor();
+
+    await new Promise<void>((resolve) => {
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          resolve();
+          return;
+        }
+        if ((cursor.value as RouteCacheEntry).expiresAt < cutoff) {
+          cursor.delete();
+        }
+        cursor.continue();
+      };
+      request.onerror = () => resolve();
+    });
+  }
+
+  // Wrap an IDBRequest in a promise
+  private static runRequest<T>(request: IDBRequest<T>): Promise<T> {
+    return new Promise((resolve, reject) => {
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  }
+}
+
+// Export singleton instance
+export const routeCacheService = new RouteCacheService();
+export default RouteCacheService;
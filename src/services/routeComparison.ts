@@ -0,0 +1,81 @@
+// Route comparison
+// Differences between the shortest and safest routes, and how to say them in words
+
+import type { RouteStats } from './routingService';
+
+// Stats worth comparing between the two routes (detour factor is already relative)
+export type ComparedStat = 'total_distance_m' | 'total_time_s' | 'crime_incidents_nearby' | 'safety_score';
+
+export interface MetricComparison {
+  shortest: number;
+  safest: number;
+  difference: number; // safest - shortest
+  percent_change: number | null; // Relative to the shortest route; null when that is 0
+}
+
+export type ComparisonStats = Record<ComparedStat, MetricComparison>;
+
+export const COMPARED_STATS: ComparedStat[] = [
+  'total_distance_m',
+  'total_time_s',
+  'crime_incidents_nearby',
+  'safety_score'
+];
+
+// Changes smaller than this read as "about the same"
+const NEGLIGIBLE_PERCENT = 1;
+
+function compareMetric(shortest: number, safest: number): MetricComparison {
+  return {
+    shortest,
+    safest,
+    difference: safest - shortest,
+    percent_change: shortest !== 0 ? ((safest - shortest) / shortest) * 100 : null
+  };
+}
+
+/**
+ * Compare the safest route against the shortest one, stat by stat
+ */
+export function compareRouteStats(shortest: RouteStats, safest: RouteStats): ComparisonStats {
+  return {
+    total_distance_m: compareMetric(shortest.total_distance_m, safest.total_distance_m),
+    total_time_s: compareMetric(shortest.total_time_s, safest.total_time_s),
+    crime_incidents_nearby: compareMetric(shortest.crime_incidents_nearby, safest.crime_incidents_nearby),
+    safety_score: compareMetric(shortest.safety_score, safest.safety_score)
+  };
+}
+
+function describeDistance({ percent_change, difference }: MetricComparison): string | null {
+  if (difference === 0 || (percent_change !== null && Math.abs(percent_change) < NEGLIGIBLE_PERCENT)) {
+    return null;
+  }
+  const amount = percent_change !== null ? `${Math.round(Math.abs(percent_change))}%` : 'slightly';
+  return `${amount} ${difference > 0 ? 'longer' : 'shorter'}`;
+}
+
+function describeIncidents({ percent_change, difference }: MetricComparison): string | null {
+  if (difference === 0) return null;
+  const direction = difference > 0 ? 'more' : 'fewer';
+  // No incidents on the shortest route leaves nothing to take a percentage of
+  if (percent_change === null) {
+    return `${Math.abs(difference)} ${direction} incident${Math.abs(difference) === 1 ? '' : 's'} nearby`;
+  }
+  return `${Math.round(Math.abs(percent_change))}% ${direction} incidents nearby`;
+}
+
+/**
+ * Plain-language summary of the safest route relative to the shortest,
+ * e.g. "7% longer, 35% fewer incidents nearby"
+ */
+export function describeComparison(comparison: ComparisonStats): string {
+  const parts = [
+    describeDistance(comparison.total_distance_m),
+    describeIncidents(comparison.crime_incidents_nearby)
+  ].filter((part): part is string => part !== null);
+
+  if (parts.length === 0) {
+    return 'Same length and incidents nearby as the shortest route';
+  }
+  return parts.join(', ');
+}
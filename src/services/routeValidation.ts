@@ -0,0 +1,207 @@
+// Runtime validation for Ventr API responses
+// Checks the shape of calculate-multiple payloads before they reach the map and UI
+
+import type {
+  CalculateMultipleResponse,
+  LngLat,
+  RouteFeature,
+  RouteGeoJSON,
+  RouteStats
+} from './routingService';
+import { RoutingError } from './routingErrors';
+
+/**
+ * Raised when an API payload doesn't match the expected schema.
+ * `path` points at the offending value, e.g. "safest_route.features[0].geometry".
+ */
+export class RouteValidationError extends RoutingError {
+  path: string;
+
+  constructor(path: string, problem: string) {
+    // The same payload would fail the same way, so retrying doesn't help
+    super('invalid-response', `${path} ${problem}`, false);
+    this.name = 'RouteValidationError';
+    this.path = path;
+  }
+}
+
+type UnknownRecord = Record<string, unknown>;
+
+function isRecord(value: unknown): value is UnknownRecord {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function expectRecord(value: unknown, path: string): UnknownRecord {
+  if (!isRecord(value)) {
+    throw new RouteValidationError(path, 'is not an object');
+  }
+  return value;
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === 'number' && Number.isFinite(value);
+}
+
+function expectFiniteNumber(value: unknown, path: string): number {
+  if (!isFiniteNumber(value)) {
+    throw new RouteValidationError(path, 'is not a finite number');
+  }
+  return value;
+}
+
+/**
+ * Validate a GeoJSON position as a [lng,lat] pair within WGS84 bounds
+ */
+export function validateLngLat(value: unknown, path: string): LngLat {
+  if (
+    !Array.isArray(value) ||
+    value.length < 2 ||
+    typeof value[0] !== 'number' ||
+    typeof value[1] !== 'number' ||
+    !Number.isFinite(value[0]) ||
+    !Number.isFinite(value[1])
+  ) {
+    throw new RouteValidationError(path, 'is not a [lng,lat] pair');
+  }
+
+  const [lng, lat] = value;
+  if (lng < -180 || lng > 180) {
+    throw new RouteValidationError(path, `has longitude ${lng} outside [-180, 180]`);
+  }
+  if (lat < -90 || lat > 90) {
+    throw new RouteValidationError(path, `has latitude ${lat} outside [-90, 90]`);
+  }
+  return [lng, lat];
+}
+
+// Known descriptive properties; anything else, or of the wrong type, is left out
+function validateFeatureProperties(value: UnknownRecord): RouteFeature['properties'] {
+  const properties: RouteFeature['properties'] = {};
+  if (typeof value.algorithm === 'string') properties.algorithm = value.algorithm;
+  if (typeof value.type === 'string') properties.type = value.type;
+  if (typeof value.name === 'string') properties.name = value.name;
+  if (isFiniteNumber(value.total_distance_m)) properties.total_distance_m = value.total_distance_m;
+  if (isFiniteNumber(value.node_count)) properties.node_count = value.node_count;
+  if (isFiniteNumber(value.calculation_time_ms)) properties.calculation_time_ms = value.calculation_time_ms;
+  return properties;
+}
+
+function validateFeature(value: unknown, path: string): RouteFeature {
+  const feature = expectRecord(value, path);
+  if (feature.type !== 'Feature') {
+    throw new RouteValidationError(`${path}.type`, 'is not "Feature"');
+  }
+
+  const geometry = expectRecord(feature.geometry, `${path}.geometry`);
+  const coordinatesPath = `${path}.geometry.coordinates`;
+  const properties = feature.properties ?? {};
+  if (!isRecord(properties)) {
+    throw new RouteValidationError(`${path}.properties`, 'is not an object');
+  }
+
+  if (geometry.type === 'LineString') {
+    if (!Array.isArray(geometry.coordinates) || geometry.coordinates.length < 2) {
+      throw new RouteValidationError(coordinatesPath, 'is not an array of at least 2 positions');
+    }
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'LineString',
+        coordinates: geometry.coordinates.map((position, index) =>
+          validateLngLat(position, `${coordinatesPath}[${index}]`)
+        )
+      },
+      properties: validateFeatureProperties(properties)
+    };
+  }
+
+  if (geometry.type === 'Point') {
+    return {
+      type: 'Feature',
+      geometry: {
+        type: 'Point',
+        coordinates: validateLngLat(geometry.coordinates, coordinatesPath)
+      },
+      properties: validateFeatureProperties(properties)
+    };
+  }
+
+  throw new RouteValidationError(`${path}.geometry.type`, 'is not "LineString" or "Point"');
+}
+
+/**
+ * Validate a route FeatureCollection containing at least one LineString
+ */
+export function validateRouteGeoJSON(value: unknown, path: string): RouteGeoJSON {
+  const collection = expectRecord(value, path);
+  if (collection.type !== 'FeatureCollection') {
+    throw new RouteValidationError(`${path}.type`, 'is not "FeatureCollection"');
+  }
+  if (!Array.isArray(collection.features)) {
+    throw new RouteValidationError(`${path}.features`, 'is not an array');
+  }
+
+  const features = collection.features.map((feature, index) =>
+    validateFeature(feature, `${path}.features[${index}]`)
+  );
+  if (!features.some((feature) => feature.geometry.type === 'LineString')) {
+    throw new RouteValidationError(`${path}.features`, 'has no LineString feature');
+  }
+
+  return { type: 'FeatureCollection', features };
+}
+
+/**
+ * Validate the numeric fields of RouteStats
+ */
+export function validateRouteStats(value: unknown, path: string): RouteStats {
+  const stats = expectRecord(value, path);
+  const field = (name: keyof RouteStats): number => {
+    const fieldValue = expectFiniteNumber(stats[name], `${path}.${name}`);
+    if (fieldValue < 0) {
+      throw new RouteValidationError(`${path}.${name}`, `is negative (${fieldValue})`);
+    }
+    return fieldValue;
+  };
+
+  return {
+    total_distance_m: field('total_distance_m'),
+    total_time_s: field('total_time_s'),
+    crime_incidents_nearby: field('crime_incidents_nearby'),
+    safety_score: field('safety_score'),
+    detour_factor: field('detour_factor')
+  };
+}
+
+/**
+ * Validate a calculate-multiple response, returning a fully typed copy.
+ * Throws RouteValidationError naming the first invalid value.
+ */
+export function validateCalculateMultipleResponse(value: unknown): CalculateMultipleResponse {
+  const response = expectRecord(value, 'response');
+
+  if (typeof response.success !== 'boolean') {
+    throw new RouteValidationError('success', 'is not a boolean');
+  }
+  if (typeof response.message !== 'string') {
+    throw new RouteValidationError('message', 'is not a string');
+  }
+  // A failed calculation carries no routes, only the reason in `message`
+  if (!response.success) {
+    return { success: false, message: response.message };
+  }
+
+  const shortestStats = validateRouteStats(response.shortest_stats, 'shortest_stats');
+  const safestStats = validateRouteStats(response.safest_stats, 'safest_stats');
+
+  return {
+    success: true,
+    message: response.message,
+    shortest_route: validateRouteGeoJSON(response.shortest_route, 'shortest_route'),
+    shortest_stats: shortestStats,
+    safest_route: validateRouteGeoJSON(response.safest_route, 'safest_route'),
+    safest_stats: safestStats,
+    // Passed through as-is: it has no fixed schema, so nothing reads it
+    comparison_stats: response.comparison_stats
+  };
+}
@@ -0,0 +1,96 @@
+// Typed errors for route calculation
+// Lets the UI tell a dropped connection apart from an unroutable trip
+
+export type RoutingErrorKind =
+  | 'network'
+  | 'timeout'
+  | 'validation'
+  | 'server'
+  | 'no-route'
+  | 'invalid-response'
+  | 'unexpected';
+
+/**
+ * Whether an error came from aborting a request rather than a real failure
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Base class for every routing failure. `retryable` marks transient failures
+ * that are worth retrying automatically and offering a Retry action for.
+ */
+export class RoutingError extends Error {
+  kind: RoutingErrorKind;
+  retryable: boolean;
+  status?: number; // HTTP status, when the failure came from a response
+
+  constructor(kind: RoutingErrorKind, message: string, retryable: boolean, status?: number) {
+    super(message);
+    this.name = 'RoutingError';
+    this.kind = kind;
+    this.retryable = retryable;
+    this.status = status;
+  }
+
+  /**
+   * Wrap anything thrown during a calculation in a RoutingError
+   */
+  static from(error: unknown): RoutingError {
+    if (error instanceof RoutingError) return error;
+    // Providers raise NetworkError themselves, so anything else is a bug rather than a dropped connection
+    return new UnexpectedError(error instanceof Error ? error.message : String(error));
+  }
+}
+
+/** The routing API could not be reached at all */
+export class NetworkError extends RoutingError {
+  constructor(message: string = 'Could not reach the routing service') {
+    super('network', message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/** The routing API did not answer within the configured timeout */
+export class TimeoutError extends RoutingError {
+  timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super('timeout', `Routing request timed out after ${Math.round(timeoutMs / 1000)}s`, true);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/** The API rejected the request (4xx), e.g. coordinates outside the routing graph */
+export class ApiValidationError extends RoutingError {
+  constructor(status: number, message: string) {
+    super('validation', message, false, status);
+    this.name = 'ApiValidationError';
+  }
+}
+
+/** The API failed while handling a valid request (5xx), or isn't where the config says */
+export class ServerError extends RoutingError {
+  constructor(status: number, message: string, retryable: boolean = true) {
+    super('server', message, retryable, status);
+    this.name = 'ServerError';
+  }
+}
+
+/** The API answered but could not connect the requested points */
+export class NoRouteFoundError extends RoutingError {
+  constructor(message: string = 'No route found between these points') {
+    super('no-route', message, false);
+    this.name = 'NoRouteFoundError';
+  }
+}
+
+/** Something other than the API failed, e.g. a bug in handling its response */
+export class UnexpectedError extends RoutingError {
+  constructor(message: string) {
+    super('unexpected', message, false);
+    this.name = 'UnexpectedError';
+  }
+}
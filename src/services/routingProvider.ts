@@ -0,0 +1,34 @@
+// Routing Provider
+// Where route calculations come from: the live Ventr API or recorded fixtures
+
+import type { ApiRouteRequest, CalculateMultipleRequest, ShortestRouteRequest } from './routingService';
+import HttpRoutingProvider from './httpRoutingProvider';
+import FixtureRoutingProvider from './fixtureRoutingProvider';
+
+export type RoutingProviderKind = 'http' | 'fixture';
+
+/**
+ * Source of Ventr API payloads. Implementations resolve with the raw, unvalidated
+ * response body and reject with a RoutingError subclass, or an AbortError when
+ * `signal` is aborted.
+ */
+export interface RoutingProvider {
+  readonly kind: RoutingProviderKind;
+  calculateMultiple(request: CalculateMultipleRequest, signal?: AbortSignal): Promise<unknown>;
+  calculateShortest(request: ShortestRouteRequest, signal?: AbortSignal): Promise<unknown>;
+  calculateRoute(request: ApiRouteRequest, signal?: AbortSignal): Promise<unknown>;
+}
+
+/**
+ * Create the provider selected in configuration. `apiBaseUrl` only applies to the HTTP provider.
+ */
+export function createRoutingProvider(kind: RoutingProviderKind, apiBaseUrl: string): RoutingProvider {
+  switch (kind) {
+    case 'fixture':
+      console.log('🧪 Using fixture routing provider');
+      return new FixtureRoutingProvider();
+    case 'http':
+    default:
+      return new HttpRoutingProvider(apiBaseUrl);
+  }
+}
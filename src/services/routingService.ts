@@ -1,6 +1,14 @@
 // Routing Service for Ventr API
 // Handles route calculation requests and responses
 
+import RouteCacheService, { routeCacheService } from './routeCacheService';
+import { validateCalculateMultipleResponse } from './routeValidation';
+import type { AppConfig } from '../config/appConfig';
+import { RoutingError, NoRouteFoundError, isAbortError } from './routingErrors';
+import { RoutingProvider, createRoutingProvider } from './routingProvider';
+import { ComparisonStats, compareRouteStats, describeComparison } from './routeComparison';
+import { getDestinationPoint, simplifyLine } from '../utils/geometry';
+
 export interface RouteStats {
   total_distance_m: number;
   total_time_s: number;
@@ -9,12 +17,22 @@ export interface RouteStats {
   detour_factor: number;
 }
 
+// GeoJSON position as [longitude, latitude]
+export type LngLat = [number, number];
+
+export interface LineStringGeometry {
+  type: 'LineString';
+  coordinates: LngLat[];
+}
+
+export interface PointGeometry {
+  type: 'Point';
+  coordinates: LngLat;
+}
+
 export interface RouteFeature {
   type: 'Feature';
-  geometry: {
-    type: 'LineString' | 'Point';
-    coordinates: number[][] | number[];
-  };
+  geometry: LineStringGeometry | PointGeometry;
   properties: {
     algorithm?: string;
     total_distance_m?: number;
@@ -25,15 +43,23 @@ export interface RouteFeature {
   };
 }
 
+export interface RouteGeoJSON {
+  type: 'FeatureCollection';
+  features: RouteFeature[];
+}
+
 export interface RouteResponse {
   success: boolean;
   message: string;
-  route_geojson: {
-    type: 'FeatureCollection';
-    features: RouteFeature[];
-  };
+  route_geojson: RouteGeoJSON;
   route_stats: RouteStats;
   shortest_path_stats: RouteStats | null;
+  legs?: RouteStats[]; // Per-leg stats for multi-stop routes, in travel order
+}
+
+export interface RoutePoint {
+  lng: number;
+  lat: number;
 }
 
 export interface RouteRequest {
@@ -41,6 +67,8 @@ export interface RouteRequest {
   start_lat: number;
   end_lng: number;
   end_lat: number;
+  waypoints?: RoutePoint[]; // Intermediate stops between start and end, in travel order
+  departure_time?: string; // ISO 8601; omitted to route on incidents at any time of day
 }
 
 // New interfaces for the calculate-multiple API
@@ -57,19 +85,25 @@ export interface CalculateMultipleRequest {
   include_safest: boolean;
   crime_weight_safest: number;
   max_detour_factor: number;
+  departure_time?: string; // ISO 8601, weights incidents near this hour and weekday
 }
 
-export interface CalculateMultipleResponse {
-  success: boolean;
+// The API answers success: false, with only a message, when it can't connect the two points
+export interface CalculateMultipleFailure {
+  success: false;
   message: string;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  shortest_route: any; // GeoJSON route data
+}
+
+export type CalculateMultipleResponse = CalculateMultipleResult | CalculateMultipleFailure;
+
+export interface CalculateMultipleResult {
+  success: true;
+  message: string;
+  shortest_route: RouteGeoJSON;
   shortest_stats: RouteStats;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  safest_route: any; // GeoJSON route data
+  safest_route: RouteGeoJSON;
   safest_stats: RouteStats;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  comparison_stats: any; // Additional comparison data
+  comparison_stats?: unknown; // No fixed schema (recordings have null); ProcessedRoutes.comparison is derived locally
 }
 
 export interface ApiRouteRequest {
@@ -98,110 +132,489 @@ export interface ShortestRouteRequest {
   };
 }
 
+// User-adjustable trade-off between safety and distance
+export interface RoutingPreferences {
+  crimeWeight: number; // 0 = ignore crime, 1 = avoid crime as much as the detour limit allows
+  maxDetourFactor: number; // Safe route may be at most this many times the shortest distance
+}
+
+export const DEFAULT_ROUTING_PREFERENCES: RoutingPreferences = {
+  crimeWeight: 0.1,
+  maxDetourFactor: 2
+};
+
+export const CRIME_WEIGHT_RANGE = { min: 0, max: 1, step: 0.05 };
+export const MAX_DETOUR_FACTOR_RANGE = { min: 1.1, max: 3, step: 0.1 };
+
 export interface ProcessedRoutes {
   shortest: RouteResponse;
   safe: RouteResponse;
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  comparison?: any; // Additional comparison data from the new API
+  comparison?: ComparisonStats; // Safest vs. shortest; missing on results cached by older versions
+  cachedAt?: number; // Set when served from the route cache (epoch milliseconds)
+  isDemo?: boolean; // Fixed sample routes shown in demo mode - not the requested trip
+}
+
+// Crime weights requested when exploring the distance/safety trade-off
+export const DEFAULT_SWEEP_CRIME_WEIGHTS = [0, 0.1, 0.25, 0.5, 0.75, 1];
+
+// One distinct route found by a crime-weight sweep
+export interface SweepRoute {
+  route: RouteResponse;
+  crimeWeights: number[]; // Every swept weight that produced this geometry, ascending
+  isParetoOptimal: boolean; // No other route is at least as short with fewer incidents, or vice versa
 }
 
+export interface RouteSweep {
+  routes: SweepRoute[]; // Distinct routes, shortest first
+  failedWeights: number[]; // Weights whose calculation failed and were left out
+  isDemo?: boolean;
+}
+
+// A round trip that starts and ends at the same point
+export interface LoopRequest {
+  start: RoutePoint;
+  target_distance_m: number;
+  departure_time?: string; // ISO 8601, as for RouteRequest
+}
+
+export interface LoopRoute {
+  route: RouteResponse; // Safe route through the loop's turning points
+  bearing: number; // Direction the loop heads out in, degrees clockwise from north
+  waypoints: RoutePoint[]; // Generated turning points, in travel order
+  distanceError: number; // Actual / target distance - 1
+  isDemo?: boolean; // The demo sample route, not a loop at all
+}
+
+// Directions to try a loop in; one candidate loop per bearing
+export const LOOP_BEARINGS = [0, 120, 240];
+// Loops more than this far off the target distance rank below those within it
+export const LOOP_DISTANCE_TOLERANCE = 0.25;
+// Walking distance along streets vs. the circle the turning points sit on
+const LOOP_STREET_FACTOR = 1.25;
+
 class RoutingService {
-  private baseUrl: string;
+  private provider: RoutingProvider;
+  private cache: RouteCacheService;
+  private demoMode: boolean;
+
+  constructor(
+    provider: RoutingProvider,
+    cache: RouteCacheService = routeCacheService,
+    demoMode: boolean = false // Serve sample routes when the API fails
+  ) {
+    this.provider = provider;
+    this.cache = cache;
+    this.demoMode = demoMode;
+  }
 
-  constructor(baseUrl: string = 'https://ventr-api.harman-singh.com') { // User's API URL
-    this.baseUrl = baseUrl;
+  /**
+   * Create a service for the loaded runtime config
+   */
+  static fromConfig(config: AppConfig): RoutingService {
+    return new RoutingService(
+      createRoutingProvider(config.routingProvider, config.apiBaseUrl),
+      routeCacheService,
+      config.demoMode
+    );
   }
 
   /**
-   * Calculate both shortest and safe routes using the new calculate-multiple endpoint
+   * Calculate both shortest and safe routes using the new calculate-multiple endpoint.
+   * Routes with intermediate waypoints are calculated leg by leg and stitched together.
+   * Aborting `signal` cancels the in-flight requests and rejects with an AbortError;
+   * any other failure rejects with a RoutingError subclass.
    */
-  async calculateRoutes(request: RouteRequest): Promise<ProcessedRoutes> {
-    console.log('🚗 Calculating routes for:', request);
+  async calculateRoutes(
+    request: RouteRequest,
+    preferences: RoutingPreferences = DEFAULT_ROUTING_PREFERENCES,
+    signal?: AbortSignal
+  ): Promise<ProcessedRoutes> {
+    console.log('🚗 Calculating routes for:', request, 'with preferences:', preferences);
+
+    const cacheKey = RouteCacheService.buildKey(request, preferences, this.provider.kind);
+    const cached = await this.cache.get(cacheKey);
+    if (cached) {
+      console.log('⚡ Serving routes from cache:', cacheKey);
+      return { ...cached.routes, cachedAt: cached.cachedAt };
+    }
 
+    let routes: ProcessedRoutes;
     try {
-      // Use the new calculate-multiple endpoint
-      const apiRequest: CalculateMultipleRequest = {
-        start: {
-          latitude: request.start_lat,
-          longitude: request.start_lng
-        },
-        destination: {
-          latitude: request.end_lat,
-          longitude: request.end_lng
-        },
-        include_shortest: true,
-        include_safest: true,
-        crime_weight_safest: 0.1,
-        max_detour_factor: 2
-      };
-
-      console.log('📡 Calling calculate-multiple API with request:', apiRequest);
-      const response = await fetch(`${this.baseUrl}/api/routing/calculate-multiple`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify(apiRequest)
-      });
+      const stops: RoutePoint[] = [
+        { lng: request.start_lng, lat: request.start_lat },
+        ...(request.waypoints ?? []),
+        { lng: request.end_lng, lat: request.end_lat }
+      ];
+
+      const legs = await Promise.all(
+        // Every leg uses the trip's departure time; stops are short enough for the same hour to apply
+        stops.slice(1).map((to, index) =>
+          this.calculateLeg(stops[index], to, preferences, request.departure_time, signal)
+        )
+      );
+
+      routes = legs[0];
+      if (legs.length > 1) {
+        console.log(`🧩 Stitching ${legs.length} legs together`);
+        routes = RoutingService.mergeLegs(legs);
+      }
+    } catch (error) {
+      // Cancellation is not a failure - let the caller know it was superseded
+      if (RoutingService.isAbortError(error) || signal?.aborted) {
+        console.log('🛑 Route calculation cancelled');
+        throw error;
+      }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('❌ Calculate-multiple API failed:', response.status, errorText);
-        throw new Error(`Calculate-multiple API failed: ${response.status} - ${errorText}`);
+      console.error('❌ Error calculating routes:', error);
+
+      // A definite answer (no route, a rejected request, a payload we can't read) stands;
+      // only transient failures fall back to older or sample routes
+      const routingError = RoutingError.from(error);
+      if (!routingError.retryable) {
+        throw routingError;
       }
 
-      const result: CalculateMultipleResponse = await response.json();
-      console.log('✅ Calculate-multiple response received:', result);
+      // An expired result for the same trip beats no result on a flaky connection
+      const stale = await this.cache.get(cacheKey, { allowExpired: true });
+      if (stale) {
+        console.log('📦 Serving expired cached routes after network failure');
+        return { ...stale.routes, cachedAt: stale.cachedAt };
+      }
 
-      // Validate the response structure
-      if (!RoutingService.validateApiResponse(result)) {
-        throw new Error('Invalid API response structure');
+      // Sample routes are only shown when demo mode is explicitly enabled,
+      // otherwise the real error goes to the caller
+      if (this.demoMode) {
+        console.log('🎭 Demo mode: falling back to sample routes');
+        return this.getDemoRoutes(request);
       }
 
-      if (!result.success) {
-        throw new Error(`API returned success: false - ${result.message}`);
+      throw routingError;
+    }
+
+    // Caching is best-effort: don't hold the result for the write, or fail it over storage
+    this.cache.set(cacheKey, routes).catch((error) => {
+      console.warn('⚠️ Could not cache routes:', error);
+    });
+    return routes;
+  }
+
+  /**
+   * Calculate the safe route at several crime weights and keep each distinct geometry once.
+   * The plain shortest route is included at weight 0. Individual weights may fail without
+   * failing the sweep; it only rejects when every weight does.
+   */
+  async calculateRouteSweep(
+    request: RouteRequest,
+    preferences: RoutingPreferences = DEFAULT_ROUTING_PREFERENCES,
+    crimeWeights: number[] = DEFAULT_SWEEP_CRIME_WEIGHTS,
+    signal?: AbortSignal
+  ): Promise<RouteSweep> {
+    console.log(`📈 Sweeping ${crimeWeights.length} crime weights:`, crimeWeights);
+
+    const results = await Promise.allSettled(
+      crimeWeights.map((crimeWeight) => this.calculateRoutes(request, { ...preferences, crimeWeight }, signal))
+    );
+    signal?.throwIfAborted();
+
+    const candidates: { crimeWeight: number; route: RouteResponse }[] = [];
+    const failedWeights: number[] = [];
+    let firstError: unknown = null;
+    let isDemo = false;
+
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        failedWeights.push(crimeWeights[index]);
+        firstError ??= result.reason;
+        return;
       }
+      isDemo ||= Boolean(result.value.isDemo);
+      candidates.push({ crimeWeight: 0, route: result.value.shortest });
+      candidates.push({ crimeWeight: crimeWeights[index], route: result.value.safe });
+    });
 
-      if (!result.shortest_route || !result.safest_route) {
-        throw new Error('API response missing route data');
+    if (candidates.length === 0) {
+      throw RoutingError.from(firstError);
+    }
+
+    // Group identical geometries, remembering every weight that produced them
+    const distinct = new Map<string, { route: RouteResponse; crimeWeights: Set<number> }>();
+    candidates.forEach(({ crimeWeight, route }) => {
+      const key = RoutingService.getGeometryKey(route.route_geojson);
+      const existing = distinct.get(key);
+      if (existing) {
+        existing.crimeWeights.add(crimeWeight);
+      } else {
+        distinct.set(key, { route, crimeWeights: new Set([crimeWeight]) });
       }
+    });
+
+    const routes = Array.from(distinct.values())
+      .map(({ route, crimeWeights: weights }) => ({
+        route,
+        crimeWeights: Array.from(weights).sort((a, b) => a - b),
+        isParetoOptimal: false
+      }))
+      .sort((a, b) => a.route.route_stats.total_distance_m - b.route.route_stats.total_distance_m);
+
+    routes.forEach((candidate) => {
+      candidate.isParetoOptimal = !routes.some((other) =>
+        RoutingService.dominates(other.route.route_stats, candidate.route.route_stats)
+      );
+    });
 
-      if (!result.shortest_stats || !result.safest_stats) {
-        throw new Error('API response missing stats data');
+    console.log(`✅ Sweep found ${routes.length} distinct routes (${failedWeights.length} weights failed)`);
+    return { routes, failedWeights, isDemo };
+  }
+
+  /**
+   * Generate round trips from `start` of roughly the target distance, one per bearing.
+   * Each loop is routed through turning points on a circle that passes through the start.
+   * Loops are ranked safest first, with those near the target distance ahead of the rest.
+   */
+  async calculateLoops(
+    request: LoopRequest,
+    preferences: RoutingPreferences = DEFAULT_ROUTING_PREFERENCES,
+    bearings: number[] = LOOP_BEARINGS,
+    signal?: AbortSignal
+  ): Promise<LoopRoute[]> {
+    console.log(`🔁 Generating ${bearings.length} loops of ~${request.target_distance_m}m from`, request.start);
+
+    const candidates = bearings.map((bearing) => ({
+      bearing,
+      waypoints: RoutingService.getLoopWaypoints(request.start, request.target_distance_m, bearing)
+    }));
+
+    // Turning points can land in the lake or off the graph; skip those loops rather than fail
+    const results = await Promise.allSettled(
+      candidates.map(({ waypoints }) =>
+        this.calculateRoutes(
+          {
+            start_lng: request.start.lng,
+            start_lat: request.start.lat,
+            end_lng: request.start.lng,
+            end_lat: request.start.lat,
+            waypoints,
+            departure_time: request.departure_time
+          },
+          preferences,
+          signal
+        )
+      )
+    );
+    signal?.throwIfAborted();
+
+    const loops: LoopRoute[] = [];
+    let firstError: unknown = null;
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        firstError ??= result.reason;
+        return;
       }
+      loops.push({
+        ...candidates[index],
+        route: result.value.safe,
+        distanceError: result.value.safe.route_stats.total_distance_m / request.target_distance_m - 1,
+        ...(result.value.isDemo && { isDemo: true })
+      });
+    });
 
-      // Convert the response to the expected ProcessedRoutes format
-      const processedRoutes: ProcessedRoutes = {
-        shortest: {
-          success: result.success,
-          message: result.message,
-          route_geojson: result.shortest_route,
-          route_stats: result.shortest_stats,
-          shortest_path_stats: null
-        },
-        safe: {
-          success: result.success,
-          message: result.message,
-          route_geojson: result.safest_route,
-          route_stats: result.safest_stats,
-          shortest_path_stats: null
-        },
-        comparison: result.comparison_stats // Add comparison data
-      };
-
-      console.log('✅ Routes processed successfully from calculate-multiple endpoint');
-      console.log('📍 Shortest route stats:', processedRoutes.shortest.route_stats);
-      console.log('🛡️ Safe route stats:', processedRoutes.safe.route_stats);
-      
-      return processedRoutes;
+    if (loops.length === 0) {
+      throw RoutingError.from(firstError);
+    }
 
-    } catch (error) {
-      console.error('❌ Error calculating routes:', error);
-      
-      // Fallback to hardcoded data if API fails (for development)
-      console.log('🔄 Falling back to hardcoded data...');
-      return this.getHardcodedRoutes(request);
+    // Every bearing gets the same sample in demo mode; one flagged copy is enough
+    const demoLoop = loops.find((loop) => loop.isDemo);
+    if (demoLoop) {
+      console.log('🎭 Demo mode: returning the sample route in place of loops');
+      return [demoLoop];
     }
+
+    const isNearTarget = (loop: LoopRoute) => Math.abs(loop.distanceError) <= LOOP_DISTANCE_TOLERANCE;
+    loops.sort((a, b) =>
+      Number(isNearTarget(b)) - Number(isNearTarget(a)) ||
+      b.route.route_stats.safety_score - a.route.route_stats.safety_score
+    );
+
+    console.log(`✅ Generated ${loops.length} loops`);
+    return loops;
+  }
+
+  // Three turning points a quarter, half and three quarters of the way round a circle
+  // whose centre lies from the start along `bearing`
+  private static getLoopWaypoints(start: RoutePoint, targetDistanceM: number, bearing: number): RoutePoint[] {
+    const radiusKm = targetDistanceM / 1000 / (2 * Math.PI * LOOP_STREET_FACTOR);
+    const centre = getDestinationPoint(start.lat, start.lng, bearing, radiusKm);
+    return [90, 180, 270].map((offset) => {
+      const { lng, lat } = getDestinationPoint(centre.lat, centre.lng, bearing + 180 + offset, radiusKm);
+      return { lng, lat };
+    });
+  }
+
+  // Whether `a` is no worse than `b` on distance and incidents, and better on at least one
+  private static dominates(a: RouteStats, b: RouteStats): boolean {
+    const noWorse =
+      a.total_distance_m <= b.total_distance_m && a.crime_incidents_nearby <= b.crime_incidents_nearby;
+    const better =
+      a.total_distance_m < b.total_distance_m || a.crime_incidents_nearby < b.crime_incidents_nearby;
+    return noWorse && better;
+  }
+
+  // Identity of a route line, ignoring sub-metre differences in coordinates
+  private static getGeometryKey(geojson: RouteGeoJSON): string {
+    return RoutingService.getRouteCoordinates(geojson)
+      .map(([lng, lat]) => `${lng.toFixed(5)},${lat.toFixed(5)}`)
+      .join(';');
+  }
+
+  /**
+   * Calculate a single leg between two points with the calculate-multiple endpoint
+   */
+  private async calculateLeg(
+    from: RoutePoint,
+    to: RoutePoint,
+    preferences: RoutingPreferences,
+    departureTime?: string,
+    signal?: AbortSignal
+  ): Promise<ProcessedRoutes> {
+    // Use the new calculate-multiple endpoint
+    const apiRequest: CalculateMultipleRequest = {
+      start: {
+        latitude: from.lat,
+        longitude: from.lng
+      },
+      destination: {
+        latitude: to.lat,
+        longitude: to.lng
+      },
+      include_shortest: true,
+      include_safest: true,
+      crime_weight_safest: preferences.crimeWeight,
+      max_detour_factor: preferences.maxDetourFactor,
+      ...(departureTime && { departure_time: departureTime })
+    };
+
+    console.log(`📡 Calling calculate-multiple (${this.provider.kind} provider) with request:`, apiRequest);
+    const payload = await this.provider.calculateMultiple(apiRequest, signal);
+    console.log('✅ Calculate-multiple response received:', payload);
+
+    // Validate the response structure (throws RouteValidationError with the offending path)
+    const result = RoutingService.validateApiResponse(payload);
+
+    if (!result.success) {
+      throw new NoRouteFoundError(result.message || undefined);
+    }
+
+    // Convert the response to the expected ProcessedRoutes format
+    const processedRoutes: ProcessedRoutes = {
+      shortest: {
+        success: result.success,
+        message: result.message,
+        route_geojson: result.shortest_route,
+        route_stats: result.shortest_stats,
+        shortest_path_stats: null,
+        legs: [result.shortest_stats]
+      },
+      safe: {
+        success: result.success,
+        message: result.message,
+        route_geojson: result.safest_route,
+        route_stats: result.safest_stats,
+        shortest_path_stats: null,
+        legs: [result.safest_stats]
+      },
+      comparison: compareRouteStats(result.shortest_stats, result.safest_stats)
+    };
+
+    console.log('✅ Leg processed successfully from calculate-multiple endpoint');
+    console.log('📍 Shortest route stats:', processedRoutes.shortest.route_stats);
+    console.log('🛡️ Safe route stats:', processedRoutes.safe.route_stats);
+    
+    return processedRoutes;
+  }
+
+  /**
+   * Combine per-leg results into a single multi-stop result
+   */
+  private static mergeLegs(legs: ProcessedRoutes[]): ProcessedRoutes {
+    const shortest = RoutingService.mergeRouteResponses(legs.map((leg) => leg.shortest));
+    const safe = RoutingService.mergeRouteResponses(legs.map((leg) => leg.safe));
+    return {
+      shortest,
+      safe,
+      comparison: compareRouteStats(shortest.route_stats, safe.route_stats)
+    };
+  }
+
+  /**
+   * Join consecutive leg responses into one LineString with totals and per-leg stats
+   */
+  private static mergeRouteResponses(responses: RouteResponse[]): RouteResponse {
+    const coordinates: LngLat[] = [];
+    const stopFeatures: RouteFeature[] = [];
+
+    responses.forEach((response, index) => {
+      const legCoordinates = RoutingService.getRouteCoordinates(response.route_geojson);
+
+      // Each leg starts where the previous one ended, so drop the repeated vertex
+      const last = coordinates[coordinates.length - 1];
+      const first = legCoordinates[0];
+      const isContinuation = last && first && last[0] === first[0] && last[1] === first[1];
+      coordinates.push(...(isContinuation ? legCoordinates.slice(1) : legCoordinates));
+
+      if (index > 0 && first) {
+        stopFeatures.push({
+          type: 'Feature',
+          geometry: { type: 'Point', coordinates: first },
+          properties: { type: 'waypoint', name: `Stop ${index}` }
+        });
+      }
+    });
+
+    const legs = responses.map((response) => response.route_stats);
+    const totalDistance = legs.reduce((sum, stats) => sum + stats.total_distance_m, 0);
+    // Shortest-equivalent distance of each leg, used to recover the overall detour factor
+    const baselineDistance = legs.reduce(
+      (sum, stats) => sum + stats.total_distance_m / (stats.detour_factor || 1),
+      0
+    );
+
+    return {
+      success: responses.every((response) => response.success),
+      message: responses[responses.length - 1].message,
+      route_geojson: {
+        type: 'FeatureCollection',
+        features: [
+          {
+            type: 'Feature',
+            geometry: { type: 'LineString', coordinates },
+            properties: { total_distance_m: totalDistance, node_count: coordinates.length }
+          },
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: coordinates[0] },
+            properties: { type: 'start', name: 'Start Point' }
+          },
+          ...stopFeatures,
+          {
+            type: 'Feature',
+            geometry: { type: 'Point', coordinates: coordinates[coordinates.length - 1] },
+            properties: { type: 'end', name: 'End Point' }
+          }
+        ]
+      },
+      route_stats: {
+        total_distance_m: totalDistance,
+        total_time_s: legs.reduce((sum, stats) => sum + stats.total_time_s, 0),
+        crime_incidents_nearby: legs.reduce((sum, stats) => sum + stats.crime_incidents_nearby, 0),
+        // Weight each leg's score by how much of the trip it covers
+        safety_score: totalDistance > 0
+          ? legs.reduce((sum, stats) => sum + stats.safety_score * stats.total_distance_m, 0) / totalDistance
+          : 0,
+        detour_factor: baselineDistance > 0 ? totalDistance / baselineDistance : 1
+      },
+      shortest_path_stats: null,
+      legs
+    };
   }
 
   /**
@@ -222,21 +635,7 @@ class RoutingService {
       }
     };
 
-    const response = await fetch(`${this.baseUrl}/api/routing/shortest`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(apiRequest)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Shortest route API failed:', response.status, errorText);
-      throw new Error(`Shortest route API failed: ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await this.provider.calculateShortest(apiRequest) as RouteResponse;
     console.log('✅ Shortest route received from dedicated endpoint:', result);
     return result;
   }
@@ -263,34 +662,20 @@ class RoutingService {
       max_detour_factor: 3.0
     };
 
-    const response = await fetch(`${this.baseUrl}/api/routing/calculate`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify(apiRequest)
-    });
-
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('❌ Safe route API failed:', response.status, errorText);
-      throw new Error(`Safe route API failed: ${response.status}`);
-    }
-
-    const result = await response.json();
+    const result = await this.provider.calculateRoute(apiRequest) as RouteResponse;
     console.log('✅ Safe route received from crime-aware endpoint:', result);
     return result;
   }
 
   /**
-   * Hardcoded routes for development/testing
-   * TODO: Remove when API integration is complete
+   * Fixed sample routes near Spadina Ave for demo mode.
+   * They ignore the requested endpoints, so results are flagged with `isDemo`.
    */
-  private getHardcodedRoutes(
+  private getDemoRoutes(
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     request: RouteRequest
   ): ProcessedRoutes {
-    console.log('📝 Using hardcoded route data for development');
+    console.log('📝 Using sample route data for demo mode');
 
     // Shortest route (blue) - from your first GeoJSON
     const shortestRoute: RouteResponse = {
@@ -456,76 +841,69 @@ class RoutingService {
 
     return {
       shortest: shortestRoute,
-      safe: safeRoute
+      safe: safeRoute,
+      comparison: compareRouteStats(shortestRoute.route_stats, safeRoute.route_stats),
+      isDemo: true
     };
   }
 
   /**
-   * Format distance for display
+   * Plain-language comparison of the safest route against the shortest
    */
-  static formatDistance(meters: number): string {
-    if (meters < 1000) {
-      return `${Math.round(meters)}m`;
-    } else {
-      return `${(meters / 1000).toFixed(1)}km`;
-    }
+  static getComparisonSummary(comparisonStats: ComparisonStats | undefined): string {
+    if (!comparisonStats) return 'No comparison data available';
+    return describeComparison(comparisonStats);
   }
 
   /**
-   * Format time for display
+   * Comparison for a result, recomputed for results cached before it was stored
    */
-  static formatTime(seconds: number): string {
-    if (seconds < 60) {
-      return `${seconds}s`;
-    } else if (seconds < 3600) {
-      const minutes = Math.round(seconds / 60);
-      return `${minutes}min`;
-    } else {
-      const hours = Math.floor(seconds / 3600);
-      const minutes = Math.round((seconds % 3600) / 60);
-      return `${hours}h ${minutes}min`;
-    }
+  static getComparison(routes: ProcessedRoutes): ComparisonStats {
+    return routes.comparison ?? compareRouteStats(routes.shortest.route_stats, routes.safe.route_stats);
   }
 
   /**
-   * Format safety score as percentage
+   * Whether an error came from aborting a request rather than a real failure
    */
-  static formatSafetyScore(score: number): string {
-    return `${Math.round(score * 100)}% safer`;
+  static isAbortError(error: unknown): boolean {
+    return isAbortError(error);
   }
 
   /**
-   * Get comparison summary from the new API response
+   * Get the coordinates of the route line in a route FeatureCollection
    */
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  static getComparisonSummary(comparisonStats: any): string {
-    if (!comparisonStats) return 'No comparison data available';
-    
-    try {
-      // This method can be expanded based on what comparison_stats contains
-      return JSON.stringify(comparisonStats, null, 2);
-    } catch (
-      // eslint-disable-next-line @typescript-eslint/no-unused-vars
-      error
-    ) {
-      return 'Error parsing comparison data';
+  static getRouteCoordinates(geojson: RouteGeoJSON): LngLat[] {
+    for (const feature of geojson.features) {
+      if (feature.geometry.type === 'LineString') {
+        return feature.geometry.coordinates;
+      }
     }
+    return [];
   }
 
   /**
-   * Validate API response structure
+   * Copy of a route FeatureCollection with its line simplified to within `toleranceM` metres
    */
-  static validateApiResponse(response: CalculateMultipleResponse): boolean {
-    return !!(
-      response.success &&
-      response.shortest_route &&
-      response.safest_route &&
-      response.shortest_stats &&
-      response.safest_stats
-    );
+  static simplifyRouteGeoJSON(geojson: RouteGeoJSON, toleranceM: number): RouteGeoJSON {
+    return {
+      ...geojson,
+      features: geojson.features.map((feature) =>
+        feature.geometry.type === 'LineString'
+          ? {
+              ...feature,
+              geometry: { ...feature.geometry, coordinates: simplifyLine(feature.geometry.coordinates, toleranceM) }
+            }
+          : feature
+      )
+    };
+  }
+
+  /**
+   * Validate API response structure, returning the typed response
+   */
+  static validateApiResponse(response: unknown): CalculateMultipleResponse {
+    return validateCalculateMultipleResponse(response);
   }
 }
 
-// Export singleton instance
-export const routingService = new RoutingService();
 export default RoutingService; 
\ No newline at end of file
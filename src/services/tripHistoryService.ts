@@ -0,0 +1,166 @@
+// Trip History Service
+// Records every calculated trip in localStorage so it can be shown again or re-run
+
+import PreferencesService from './preferencesService';
+import { getTimeBucket } from '../utils/departureTime';
+import type { ProcessedRoutes, RouteStats, RoutingPreferences } from './routingService';
+
+export interface TripPoint {
+  lng: number;
+  lat: number;
+  address?: string;
+}
+
+// The route the user settled on: the safe route unless they picked one from a sweep
+export interface ChosenRoute {
+  label: string;
+  stats: RouteStats;
+  sweepCrimeWeight?: number;
+}
+
+// One calculation of a trip, kept so score changes can be shown over time
+export interface TripRun {
+  calculatedAt: number; // Epoch milliseconds
+  preferences: RoutingPreferences;
+  safeStats: RouteStats;
+  shortestStats: RouteStats;
+}
+
+export interface TripHistoryEntry {
+  key: string; // Same endpoints, stops, preferences and departure hour share an entry
+  start: TripPoint;
+  destination: TripPoint;
+  waypoints: TripPoint[];
+  // Parameters, routes and choice from the latest run
+  preferences: RoutingPreferences;
+  departureTime: string | null; // ISO 8601
+  routes: ProcessedRoutes;
+  chosenRoute: ChosenRoute;
+  runs: TripRun[]; // Oldest first
+  updatedAt: number; // Epoch milliseconds
+}
+
+export interface TripToRecord {
+  start: TripPoint;
+  destination: TripPoint;
+  waypoints: TripPoint[];
+  preferences: RoutingPreferences;
+  departureTime: Date | null;
+  routes: ProcessedRoutes;
+}
+
+const TRIP_HISTORY_KEY = 'ventr:trip-history';
+// Each trip stores its route geometry, so keep the total well inside the storage quota
+const MAX_TRIPS = 20;
+const MAX_RUNS_PER_TRIP = 30;
+const COORDINATE_PRECISION = 4; // ~11m, matching the route cache
+
+export const SAFE_ROUTE_LABEL = 'Safest route';
+
+class TripHistoryService {
+  /**
+   * Past trips, most recently calculated first
+   */
+  load(): TripHistoryEntry[] {
+    const stored = PreferencesService.readJson<Partial<TripHistoryEntry>[]>(TRIP_HISTORY_KEY);
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(
+      (entry): entry is TripHistoryEntry =>
+        typeof entry?.key === 'string' &&
+        !!entry.start &&
+        !!entry.destination &&
+        !!entry.routes?.safe?.route_geojson &&
+        !!entry.routes?.shortest?.route_geojson &&
+        Array.isArray(entry.runs)
+    );
+  }
+
+  /**
+   * Add a run for a trip, moving it to the top. The safe route is taken as the choice
+   * until another is picked. Cached results aren't new runs: they're left out for a trip
+   * already in the history with the same parameters, and dated from when they were
+   * calculated otherwise.
+   */
+  record(trip: TripToRecord): TripHistoryEntry[] {
+    const key = TripHistoryService.getTripKey(
+      trip.start,
+      trip.destination,
+      trip.waypoints,
+      trip.preferences,
+      trip.departureTime
+    );
+    const entries = this.load();
+    const existing = entries.find((entry) => entry.key === key);
+    if (existing && trip.routes.cachedAt !== undefined) return entries;
+
+    const calculatedAt = trip.routes.cachedAt ?? Date.now();
+    // Cache and demo markers describe how this result was served, not the trip itself
+    const { shortest, safe, comparison } = trip.routes;
+
+    const run: TripRun = {
+      calculatedAt,
+      preferences: trip.preferences,
+      safeStats: safe.route_stats,
+      shortestStats: shortest.route_stats
+    };
+    const entry: TripHistoryEntry = {
+      key,
+      start: trip.start,
+      destination: trip.destination,
+      waypoints: trip.waypoints,
+      preferences: trip.preferences,
+      departureTime: trip.departureTime?.toISOString() ?? null,
+      routes: { shortest, safe, comparison },
+      chosenRoute: { label: SAFE_ROUTE_LABEL, stats: safe.route_stats },
+      runs: [...(existing?.runs ?? []), run].slice(-MAX_RUNS_PER_TRIP),
+      updatedAt: calculatedAt
+    };
+
+    return this.write([entry, ...entries.filter((other) => other.key !== key)].slice(0, MAX_TRIPS));
+  }
+
+  /**
+   * Remember which route was picked for the trip's latest run
+   */
+  setChosenRoute(key: string, chosenRoute: ChosenRoute): TripHistoryEntry[] {
+    return this.write(this.load().map((entry) => (entry.key === key ? { ...entry, chosenRoute } : entry)));
+  }
+
+  remove(key: string): TripHistoryEntry[] {
+    return this.write(this.load().filter((entry) => entry.key !== key));
+  }
+
+  /**
+   * Runs are only comparable with the same parameters, so preferences and the departure's
+   * hour of the week are part of the key, as they are for the route cache
+   */
+  static getTripKey(
+    start: TripPoint,
+    destination: TripPoint,
+    waypoints: TripPoint[],
+    preferences: RoutingPreferences,
+    departureTime: Date | null
+  ): string {
+    const parts = [
+      [start, ...waypoints, destination]
+        .map(({ lng, lat }) => `${lng.toFixed(COORDINATE_PRECISION)},${lat.toFixed(COORDINATE_PRECISION)}`)
+        .join(';'),
+      `cw=${preferences.crimeWeight}`,
+      `md=${preferences.maxDetourFactor}`
+    ];
+    if (departureTime) {
+      const { dayOfWeek, hour } = getTimeBucket(departureTime);
+      parts.push(`t=${dayOfWeek}@${hour}`);
+    }
+    return parts.join('|');
+  }
+
+  private write(entries: TripHistoryEntry[]): TripHistoryEntry[] {
+    PreferencesService.writeJson(TRIP_HISTORY_KEY, entries);
+    return entries;
+  }
+}
+
+// Export singleton instance
+export const tripHistoryService = new TripHistoryService();
+export default TripHistoryService;
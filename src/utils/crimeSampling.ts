@@ -0,0 +1,67 @@
+// Crime sampling
+// Reads incident points out of the crime tileset as currently loaded in the map
+
+import type mapboxgl from 'mapbox-gl';
+import type { FilterSpecification } from 'mapbox-gl';
+import type { LngLat } from '../services/routingService';
+
+/**
+ * Whether the source has tiles to sample. Mapbox only loads a source's tiles while a
+ * visible layer draws it at the current zoom, so a hidden heatmap would read as no incidents.
+ */
+export function hasLoadedTiles(map: mapboxgl.Map, sourceId: string): boolean {
+  const zoom = map.getZoom();
+  const isDrawn = (map.getStyle()?.layers ?? []).some(
+    (layer) =>
+      'source' in layer &&
+      layer.source === sourceId &&
+      map.getLayoutProperty(layer.id, 'visibility') !== 'none' &&
+      zoom >= (layer.minzoom ?? 0) &&
+      zoom < (layer.maxzoom ?? 24)
+  );
+  return isDrawn && map.isSourceLoaded(sourceId);
+}
+
+/**
+ * Incident locations in the source's loaded tiles. Only tiles for the current view are
+ * loaded, so bring the area of interest into view (and wait for it) before sampling,
+ * and check `hasLoadedTiles` first: with none loaded this returns an empty list.
+ */
+export function getLoadedCrimePoints(
+  map: mapboxgl.Map,
+  sourceId: string,
+  sourceLayer: string,
+  filter?: FilterSpecification
+): LngLat[] {
+  const features = map.querySourceFeatures(sourceId, { sourceLayer, filter });
+
+  // Points near tile edges are returned once per tile, so drop repeats
+  const seen = new Set<string>();
+  const points: LngLat[] = [];
+  features.forEach((feature) => {
+    if (feature.geometry.type !== 'Point') return;
+    const [lng, lat] = feature.geometry.coordinates;
+    const key = `${feature.id ?? ''}:${lng.toFixed(6)},${lat.toFixed(6)}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    points.push([lng, lat]);
+  });
+
+  return points;
+}
+
+/**
+ * Resolve once the map has finished moving and loading tiles, or after `timeoutMs`
+ * if it was already idle and no further idle event comes
+ */
+export function waitForMapIdle(map: mapboxgl.Map, timeoutMs: number = 4000): Promise<void> {
+  return new Promise((resolve) => {
+    const timeout = setTimeout(done, timeoutMs);
+    function done() {
+      clearTimeout(timeout);
+      map.off('idle', done);
+      resolve();
+    }
+    map.once('idle', done);
+  });
+}
@@ -0,0 +1,68 @@
+// Departure time helpers
+// Reduce a departure to the hour of day and day of week the crime data is recorded by
+
+import type { ExpressionSpecification } from 'mapbox-gl';
+
+// Occurrence attributes in the Toronto Police assault tileset
+export const CRIME_HOUR_FIELD = 'OCC_HOUR'; // 0-23
+export const CRIME_DAY_OF_WEEK_FIELD = 'OCC_DOW'; // "Monday", sometimes space-padded
+
+// Incidents within this many hours either side of the departure are shown
+export const HOUR_WINDOW = 1;
+
+// In Date.getDay() order
+export const DAYS_OF_WEEK = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+export interface TimeBucket {
+  hour: number;
+  dayOfWeek: string;
+}
+
+export function getTimeBucket(date: Date): TimeBucket {
+  return { hour: date.getHours(), dayOfWeek: DAYS_OF_WEEK[date.getDay()] };
+}
+
+/**
+ * Hours covered by the window around `hour`. Wraps past midnight but stays on the same weekday.
+ */
+export function getWindowHours(hour: number, window: number = HOUR_WINDOW): number[] {
+  const hours: number[] = [];
+  for (let offset = -window; offset <= window; offset++) {
+    hours.push((hour + offset + 24) % 24);
+  }
+  return hours;
+}
+
+/**
+ * Short description of the incidents shown for a departure, e.g. "Tue 13:00–16:00"
+ */
+export function describeTimeWindow(date: Date, window: number = HOUR_WINDOW): string {
+  const { hour, dayOfWeek } = getTimeBucket(date);
+  const pad = (value: number) => `${String((value + 24) % 24).padStart(2, '0')}:00`;
+  return `${dayOfWeek.slice(0, 3)} ${pad(hour - window)}–${pad(hour + window + 1)}`;
+}
+
+/**
+ * Mapbox filter keeping crime points that occurred on the same weekday within the hour window
+ */
+export function buildCrimeTimeFilter(date: Date, window: number = HOUR_WINDOW): ExpressionSpecification {
+  const { hour, dayOfWeek } = getTimeBucket(date);
+  return [
+    'all',
+    ['match', ['to-number', ['get', CRIME_HOUR_FIELD], -1], getWindowHours(hour, window), true, false],
+    // Substring match tolerates the padding some records carry
+    ['in', dayOfWeek, ['to-string', ['get', CRIME_DAY_OF_WEEK_FIELD]]]
+  ];
+}
+
+// <input type="datetime-local"> works in local time without a zone, e.g. "2025-07-18T14:30"
+export function toDateTimeLocalValue(date: Date): string {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+export function fromDateTimeLocalValue(value: string): Date | null {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
@@ -0,0 +1,175 @@
+// Directions
+// Turn-by-turn steps worked out from the shape of a route line
+
+import type { LngLat } from '../services/routingService';
+import { getBearing, getDistanceKm } from './geometry';
+
+export type Maneuver =
+  | 'depart'
+  | 'straight'
+  | 'slight-left'
+  | 'left'
+  | 'sharp-left'
+  | 'slight-right'
+  | 'right'
+  | 'sharp-right'
+  | 'u-turn'
+  | 'arrive';
+
+export interface DirectionStep {
+  maneuver: Maneuver;
+  location: LngLat; // Where the maneuver happens
+  bearing: number; // Heading after the maneuver, degrees from north
+  distanceM: number; // From this step to the next
+  namePoint: LngLat; // A little way past the maneuver, for looking up the street being turned onto
+  streetName?: string;
+}
+
+// Bends gentler than this are treated as following the road
+const MIN_TURN_DEGREES = 30;
+// Vertices closer than this are merged into one turn, so curves read as a single step
+const TURN_MERGE_DISTANCE_M = 20;
+// How far past a turn to look up the street name, clear of the junction
+const NAME_LOOKAHEAD_M = 20;
+
+const COMPASS = ['north', 'northeast', 'east', 'southeast', 'south', 'southwest', 'west', 'northwest'];
+
+function getEdgeLengthM([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+  return getDistanceKm(lat1, lng1, lat2, lng2) * 1000;
+}
+
+function getEdgeBearing([lng1, lat1]: LngLat, [lng2, lat2]: LngLat): number {
+  return getBearing(lat1, lng1, lat2, lng2);
+}
+
+// Signed change of heading in degrees, negative for left
+function getTurnAngle(bearingIn: number, bearingOut: number): number {
+  return ((bearingOut - bearingIn + 540) % 360) - 180;
+}
+
+function classifyTurn(angle: number): Maneuver {
+  const magnitude = Math.abs(angle);
+  if (magnitude < MIN_TURN_DEGREES) return 'straight';
+  if (magnitude >= 170) return 'u-turn';
+  const side = angle < 0 ? 'left' : 'right';
+  if (magnitude < 60) return `slight-${side}`;
+  if (magnitude < 135) return side;
+  return `sharp-${side}`;
+}
+
+/**
+ * Break a route line into steps at each turn. Street names are left for the caller to fill in.
+ */
+export function buildDirections(coordinates: LngLat[]): DirectionStep[] {
+  // Drop repeated points, which have no bearing
+  const points = coordinates.filter((point, i) => i === 0 || getEdgeLengthM(coordinates[i - 1], point) >= 1);
+  if (points.length < 2) return [];
+
+  const cumulative = [0];
+  for (let i = 1; i < points.length; i++) {
+    cumulative.push(cumulative[i - 1] + getEdgeLengthM(points[i - 1], points[i]));
+  }
+  const totalM = cumulative[cumulative.length - 1];
+
+  const pointAt = (distanceM: number): LngLat => {
+    const target = Math.min(totalM, Math.max(0, distanceM));
+    let i = 1;
+    while (i < points.length - 1 && cumulative[i] < target) i++;
+    const edgeLength = cumulative[i] - cumulative[i - 1];
+    const t = edgeLength > 0 ? (target - cumulative[i - 1]) / edgeLength : 0;
+    const [lng1, lat1] = points[i - 1];
+    const [lng2, lat2] = points[i];
+    return [lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t];
+  };
+
+  // Turns at interior vertices, with runs of close vertices summed into one
+  const turns: { index: number; angle: number }[] = [];
+  for (let i = 1; i < points.length - 1; i++) {
+    const angle = getTurnAngle(
+      getEdgeBearing(points[i - 1], points[i]),
+      getEdgeBearing(points[i], points[i + 1])
+    );
+    const previous = turns[turns.length - 1];
+    if (previous && cumulative[i] - cumulative[previous.index] < TURN_MERGE_DISTANCE_M) {
+      previous.angle += angle;
+    } else {
+      turns.push({ index: i, angle });
+    }
+  }
+
+  const stepIndexes = [
+    { index: 0, maneuver: 'depart' as Maneuver },
+    ...turns
+      .map(({ index, angle }) => ({ index, maneuver: classifyTurn(angle) }))
+      .filter(({ maneuver }) => maneuver !== 'straight')
+  ];
+
+  const steps: DirectionStep[] = stepIndexes.map(({ index, maneuver }, i) => {
+    const nextDistance = i + 1 < stepIndexes.length ? cumulative[stepIndexes[i + 1].index] : totalM;
+    const distanceM = nextDistance - cumulative[index];
+    return {
+      maneuver,
+      location: points[index],
+      bearing: getEdgeBearing(points[index], points[index + 1]),
+      distanceM,
+      namePoint: pointAt(cumulative[index] + Math.min(NAME_LOOKAHEAD_M, distanceM / 2))
+    };
+  });
+
+  const end = points[points.length - 1];
+  steps.push({
+    maneuver: 'arrive',
+    location: end,
+    bearing: steps[steps.length - 1].bearing,
+    distanceM: 0,
+    namePoint: end
+  });
+
+  return steps;
+}
+
+/**
+ * Fold gentle bends that stay on the same street into the step before them
+ */
+export function mergeSameStreetSteps(steps: DirectionStep[]): DirectionStep[] {
+  const merged: DirectionStep[] = [];
+  steps.forEach((step) => {
+    const previous = merged[merged.length - 1];
+    const isGentle = step.maneuver === 'straight' || step.maneuver.startsWith('slight-');
+    if (previous && isGentle && step.streetName && step.streetName === previous.streetName) {
+      previous.distanceM += step.distanceM;
+    } else {
+      merged.push({ ...step });
+    }
+  });
+  return merged;
+}
+
+export function getCompassDirection(bearing: number): string {
+  return COMPASS[Math.round(bearing / 45) % COMPASS.length];
+}
+
+/**
+ * Instruction for a step, e.g. "Turn left onto King Street West"
+ */
+export function describeStep(step: DirectionStep): string {
+  const onto = step.streetName ? ` onto ${step.streetName}` : '';
+  switch (step.maneuver) {
+    case 'depart':
+      return `Head ${getCompassDirection(step.bearing)}${step.streetName ? ` on ${step.streetName}` : ''}`;
+    case 'arrive':
+      return 'Arrive at your destination';
+    case 'straight':
+      return `Continue${onto}`;
+    case 'u-turn':
+      return `Turn around${onto}`;
+    case 'slight-left':
+    case 'slight-right':
+      return `Bear ${step.maneuver.slice('slight-'.length)}${onto}`;
+    case 'sharp-left':
+    case 'sharp-right':
+      return `Turn sharp ${step.maneuver.slice('sharp-'.length)}${onto}`;
+    default:
+      return `Turn ${step.maneuver}${onto}`;
+  }
+}
@@ -0,0 +1,142 @@
+// Formatting
+// Distances, durations, clock times and counts in the user's units and locale
+
+export type UnitSystem = 'metric' | 'imperial';
+
+export interface DisplaySettings {
+  units: UnitSystem;
+  locale?: string; // BCP 47 tag; the browser's locale when unset
+}
+
+export const DEFAULT_DISPLAY_SETTINGS: DisplaySettings = {
+  units: 'metric'
+};
+
+// Regions that walk in miles and feet
+const IMPERIAL_REGIONS = ['US', 'LR', 'MM'];
+
+const METRES_PER_MILE = 1609.344;
+const FEET_PER_METRE = 3.28084;
+const SQUARE_MILES_PER_KM2 = 0.386102;
+
+/**
+ * Best guess at units for a locale, used until the user picks
+ */
+export function guessUnitSystem(locale: string | undefined): UnitSystem {
+  const region = locale?.split('-')[1]?.toUpperCase();
+  return region && IMPERIAL_REGIONS.includes(region) ? 'imperial' : 'metric';
+}
+
+// "123 Queen St W, Toronto, Ontario M5H 2M9, Canada" → "123 Queen St W"
+export function shortAddress(address: string): string {
+  return address.split(',')[0];
+}
+
+class Formatter {
+  readonly settings: DisplaySettings;
+  private locale: string | undefined;
+
+  constructor(settings: DisplaySettings = DEFAULT_DISPLAY_SETTINGS) {
+    this.settings = settings;
+    this.locale = settings.locale;
+  }
+
+  private unit(value: number, unit: string, maximumFractionDigits: number = 0): string {
+    return new Intl.NumberFormat(this.locale, {
+      style: 'unit',
+      unit,
+      unitDisplay: 'short',
+      maximumFractionDigits
+    }).format(value);
+  }
+
+  /**
+   * "850 m" / "1.2 km", or "500 ft" / "1.2 mi"
+   */
+  distance(meters: number): string {
+    if (this.settings.units === 'imperial') {
+      const miles = meters / METRES_PER_MILE;
+      // Short hops read better in feet, rounded to the nearest 10
+      if (miles < 0.1) return this.unit(Math.round((meters * FEET_PER_METRE) / 10) * 10, 'foot');
+      return this.unit(miles, 'mile', 1);
+    }
+    if (meters < 1000) return this.unit(Math.round(meters), 'meter');
+    return this.unit(meters / 1000, 'kilometer', 1);
+  }
+
+  /**
+   * The unit people type longer distances in, km or mi
+   */
+  get distanceInputUnit(): { label: string; meters: number } {
+    return this.settings.units === 'imperial'
+      ? { label: 'mi', meters: METRES_PER_MILE }
+      : { label: 'km', meters: 1000 };
+  }
+
+  /**
+   * "45 sec", "12 min" or "1 hr 5 min"
+   */
+  duration(seconds: number): string {
+    if (seconds < 60) return this.unit(Math.round(seconds), 'second');
+    if (seconds < 3600) return this.unit(Math.round(seconds / 60), 'minute');
+
+    const hours = Math.floor(seconds / 3600);
+    const minutes = Math.round((seconds % 3600) / 60);
+    return minutes > 0
+      ? `${this.unit(hours, 'hour')} ${this.unit(minutes, 'minute')}`
+      : this.unit(hours, 'hour');
+  }
+
+  /**
+   * Clock time in the locale's style, e.g. "9:42 PM" or "21:42"
+   */
+  clockTime(date: Date): string {
+    return new Intl.DateTimeFormat(this.locale, { hour: 'numeric', minute: '2-digit' }).format(date);
+  }
+
+  /**
+   * "arrive 9:42 PM" for a trip of `durationSeconds` leaving at `departure` (now when null)
+   */
+  arrival(durationSeconds: number, departure: Date | null = null): string {
+    const start = departure ? departure.getTime() : Date.now();
+    return `arrive ${this.clockTime(new Date(start + durationSeconds * 1000))}`;
+  }
+
+  /**
+   * Area in km² or mi²
+   */
+  area(km2: number): string {
+    const [value, suffix] = this.settings.units === 'imperial'
+      ? [km2 * SQUARE_MILES_PER_KM2, 'mi²']
+      : [km2, 'km²'];
+    return `${this.number(value, 2)} ${suffix}`;
+  }
+
+  number(value: number, maximumFractionDigits: number = 0): string {
+    return new Intl.NumberFormat(this.locale, { maximumFractionDigits }).format(value);
+  }
+
+  // A 0-1 ratio as a percentage, e.g. 0.473 → "47%"
+  percent(ratio: number): string {
+    return new Intl.NumberFormat(this.locale, { style: 'percent', maximumFractionDigits: 0 }).format(ratio);
+  }
+
+  safetyScore(score: number): string {
+    return `${this.percent(score)} safer`;
+  }
+
+  /**
+   * "5 minutes ago", "yesterday", ... relative to now
+   */
+  timeAgo(epochMs: number): string {
+    const format = new Intl.RelativeTimeFormat(this.locale, { numeric: 'auto' });
+    const minutes = Math.round((epochMs - Date.now()) / 60000);
+    if (Math.abs(minutes) < 60) return format.format(minutes, 'minute');
+    const hours = Math.round(minutes / 60);
+    if (Math.abs(hours) < 24) return format.format(hours, 'hour');
+    return format.format(Math.round(hours / 24), 'day');
+  }
+}
+
+export const defaultFormatter = new Formatter();
+export default Formatter;
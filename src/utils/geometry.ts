@@ -0,0 +1,196 @@
+// Geometry helpers for working with lng/lat coordinates
+
+// Haversine formula to calculate distance between two lat/lng points in km
+export function getDistanceKm(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const toRad = (x: number) => (x * Math.PI) / 180;
+  const R = 6371; // Earth radius in km
+  const dLat = toRad(lat2 - lat1);
+  const dLng = toRad(lng2 - lng1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) *
+      Math.cos(toRad(lat2)) *
+      Math.sin(dLng / 2) *
+      Math.sin(dLng / 2);
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+  return R * c;
+}
+
+// Point reached by travelling `distanceKm` from a start point on an initial bearing (degrees from north)
+export function getDestinationPoint(lat: number, lng: number, bearing: number, distanceKm: number) {
+  const toRad = (x: number) => (x * Math.PI) / 180;
+  const toDeg = (x: number) => (x * 180) / Math.PI;
+  const R = 6371; // Earth radius in km
+  const angular = distanceKm / R;
+  const theta = toRad(bearing);
+  const phi1 = toRad(lat);
+  const lambda1 = toRad(lng);
+
+  const phi2 = Math.asin(
+    Math.sin(phi1) * Math.cos(angular) +
+      Math.cos(phi1) * Math.sin(angular) * Math.cos(theta)
+  );
+  const lambda2 =
+    lambda1 +
+    Math.atan2(
+      Math.sin(theta) * Math.sin(angular) * Math.cos(phi1),
+      Math.cos(angular) - Math.sin(phi1) * Math.sin(phi2)
+    );
+
+  return { lat: toDeg(phi2), lng: toDeg(lambda2) };
+}
+
+// Ray-casting test against a polygon's rings ([lng, lat] positions); holes are handled by the even-odd rule
+export function isPointInPolygon(point: [number, number], rings: number[][][]) {
+  const [x, y] = point;
+  let inside = false;
+  for (const ring of rings) {
+    for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+      const [xi, yi] = ring[i];
+      const [xj, yj] = ring[j];
+      if (yi > y !== yj > y && x < ((xj - xi) * (y - yi)) / (yj - yi) + xi) {
+        inside = !inside;
+      }
+    }
+  }
+  return inside;
+}
+
+// Initial bearing in degrees from north (0-360) for the great-circle path between two points
+export function getBearing(lat1: number, lng1: number, lat2: number, lng2: number) {
+  const toRad = (x: number) => (x * Math.PI) / 180;
+  const phi1 = toRad(lat1);
+  const phi2 = toRad(lat2);
+  const dLng = toRad(lng2 - lng1);
+  const y = Math.sin(dLng) * Math.cos(phi2);
+  const x = Math.cos(phi1) * Math.sin(phi2) - Math.sin(phi1) * Math.cos(phi2) * Math.cos(dLng);
+  return ((Math.atan2(y, x) * 180) / Math.PI + 360) % 360;
+}
+
+// Metres per degree at a latitude, for a flat projection that is accurate over a city-sized area
+function getMetresPerDegree(lat: number) {
+  const metresPerDegreeLat = 111320;
+  return { x: metresPerDegreeLat * Math.cos((lat * Math.PI) / 180), y: metresPerDegreeLat };
+}
+
+// How far each interior vertex stands out from the line, as Douglas–Peucker ranks them: the
+// perpendicular offset in metres when its span was split. Endpoints are always kept (Infinity).
+export function getVertexSignificance(coordinates: [number, number][]) {
+  const significance = new Array<number>(coordinates.length).fill(0);
+  if (coordinates.length === 0) return significance;
+  significance[0] = Infinity;
+  significance[coordinates.length - 1] = Infinity;
+
+  const scale = getMetresPerDegree(coordinates[0][1]);
+  const points = coordinates.map(([lng, lat]) => [lng * scale.x, lat * scale.y]);
+
+  // Iterative so long tracks can't overflow the stack
+  const spans: [number, number][] = [[0, coordinates.length - 1]];
+  while (spans.length > 0) {
+    const [first, last] = spans.pop()!;
+    const [ax, ay] = points[first];
+    const [bx, by] = points[last];
+    const dx = bx - ax;
+    const dy = by - ay;
+    const lengthSq = dx * dx + dy * dy;
+
+    let farthest = -1;
+    let maxDistance = -1;
+    for (let i = first + 1; i < last; i++) {
+      const [px, py] = points[i];
+      const t = lengthSq === 0 ? 0 : Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSq));
+      const distance = Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+      if (distance > maxDistance) {
+        maxDistance = distance;
+        farthest = i;
+      }
+    }
+    if (farthest === -1) continue;
+
+    // A vertex never outranks the one whose split exposed it
+    significance[farthest] = Math.min(maxDistance, Math.min(significance[first], significance[last]));
+    spans.push([first, farthest], [farthest, last]);
+  }
+  return significance;
+}
+
+// Douglas–Peucker: drop vertices that sit within `toleranceM` of the simplified line
+export function simplifyLine(coordinates: [number, number][], toleranceM: number) {
+  if (coordinates.length <= 2) return coordinates;
+  const significance = getVertexSignificance(coordinates);
+  return coordinates.filter((_, i) => significance[i] > toleranceM);
+}
+
+// The `maxPoints` interior vertices that best describe the line's shape, in route order.
+// Significant turns win over evenly spaced points, so a route follows the same streets.
+export function selectKeyPoints(coordinates: [number, number][], maxPoints: number) {
+  const interior = coordinates.slice(1, -1);
+  if (interior.length <= maxPoints) return interior;
+
+  const significance = getVertexSignificance(coordinates);
+  const keep = interior
+    .map((_, i) => i + 1)
+    .sort((a, b) => significance[b] - significance[a])
+    .slice(0, maxPoints)
+    .sort((a, b) => a - b);
+  return keep.map((i) => coordinates[i]);
+}
+
+// Encoded polyline (Google's format, lat/lng order) for putting a line in a URL
+export function encodePolyline(coordinates: [number, number][], precision = 5) {
+  const factor = 10 ** precision;
+  const encodeValue = (value: number) => {
+    let bits = value < 0 ? ~(value << 1) : value << 1;
+    let encoded = '';
+    while (bits >= 0x20) {
+      encoded += String.fromCharCode((0x20 | (bits & 0x1f)) + 63);
+      bits >>= 5;
+    }
+    return encoded + String.fromCharCode(bits + 63);
+  };
+
+  let previousLat = 0;
+  let previousLng = 0;
+  let encoded = '';
+  for (const [lng, lat] of coordinates) {
+    const roundedLat = Math.round(lat * factor);
+    const roundedLng = Math.round(lng * factor);
+    encoded += encodeValue(roundedLat - previousLat) + encodeValue(roundedLng - previousLng);
+    previousLat = roundedLat;
+    previousLng = roundedLng;
+  }
+  return encoded;
+}
+
+// Decode an encoded polyline back to [lng, lat] positions; returns null if it is malformed
+export function decodePolyline(encoded: string, precision = 5): [number, number][] | null {
+  const factor = 10 ** precision;
+  const coordinates: [number, number][] = [];
+  let index = 0;
+  let lat = 0;
+  let lng = 0;
+
+  const decodeValue = () => {
+    let result = 0;
+    let shift = 0;
+    let byte: number;
+    do {
+      if (index >= encoded.length || shift > 30) return null;
+      byte = encoded.charCodeAt(index++) - 63;
+      if (byte < 0 || byte > 63) return null;
+      result |= (byte & 0x1f) << shift;
+      shift += 5;
+    } while (byte >= 0x20);
+    return result & 1 ? ~(result >> 1) : result >> 1;
+  };
+
+  while (index < encoded.length) {
+    const dLat = decodeValue();
+    const dLng = decodeValue();
+    if (dLat === null || dLng === null) return null;
+    lat += dLat;
+    lng += dLng;
+    coordinates.push([lng / factor, lat / factor]);
+  }
+  return coordinates;
+}
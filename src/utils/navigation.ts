@@ -0,0 +1,93 @@
+// Navigation
+// Where a walker is along a route, and whether they have left it
+
+import type { LngLat } from '../services/routingService';
+import type { DirectionStep } from './directions';
+
+// Further than this from the line (beyond GPS accuracy) counts as off route
+export const OFF_ROUTE_DISTANCE_M = 40;
+// Within this of the end counts as arrived
+export const ARRIVAL_DISTANCE_M = 25;
+
+export interface RouteProgress {
+  distanceAlongM: number; // From the start to the closest point on the route
+  distanceFromRouteM: number;
+  remainingM: number;
+  snapped: LngLat; // Closest point on the route
+}
+
+const METRES_PER_DEGREE_LAT = 111320;
+
+/**
+ * Project a position onto the route line and measure how far along it is
+ */
+export function getRouteProgress(position: LngLat, coordinates: LngLat[]): RouteProgress | null {
+  if (coordinates.length < 2) return null;
+
+  // Flat projection around the position, fine at city scale
+  const metresPerDegreeLng = METRES_PER_DEGREE_LAT * Math.cos((position[1] * Math.PI) / 180);
+  const project = ([lng, lat]: LngLat): [number, number] => [lng * metresPerDegreeLng, lat * METRES_PER_DEGREE_LAT];
+  const [px, py] = project(position);
+
+  let best = { distance: Infinity, along: 0, snapped: coordinates[0] };
+  let travelled = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    const [ax, ay] = project(coordinates[i - 1]);
+    const [bx, by] = project(coordinates[i]);
+    const dx = bx - ax;
+    const dy = by - ay;
+    const length = Math.hypot(dx, dy);
+    const t = length > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / (length * length))) : 0;
+    const distance = Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+
+    if (distance < best.distance) {
+      const [lng1, lat1] = coordinates[i - 1];
+      const [lng2, lat2] = coordinates[i];
+      best = {
+        distance,
+        along: travelled + t * length,
+        snapped: [lng1 + (lng2 - lng1) * t, lat1 + (lat2 - lat1) * t]
+      };
+    }
+    travelled += length;
+  }
+
+  return {
+    distanceAlongM: best.along,
+    distanceFromRouteM: best.distance,
+    remainingM: Math.max(0, travelled - best.along),
+    snapped: best.snapped
+  };
+}
+
+/**
+ * The first step still ahead of the walker and how far away it is
+ */
+export function getNextStep(
+  steps: DirectionStep[],
+  distanceAlongM: number
+): { step: DirectionStep; distanceM: number } | null {
+  let stepStart = 0;
+  for (const step of steps) {
+    if (stepStart > distanceAlongM) return { step, distanceM: stepStart - distanceAlongM };
+    stepStart += step.distanceM;
+  }
+  // Only the arrival is left
+  const last = steps[steps.length - 1];
+  return last ? { step: last, distanceM: Math.max(0, stepStart - distanceAlongM) } : null;
+}
+
+/**
+ * Message for a failed or refused location request
+ */
+export function describeGeolocationError(error: GeolocationPositionError): string {
+  switch (error.code) {
+    case error.PERMISSION_DENIED:
+      return 'Location access is blocked. Allow it in your browser settings to navigate.';
+    case error.TIMEOUT:
+      return 'Still waiting for a GPS fix. Try moving somewhere with a clearer view of the sky.';
+    default:
+      return "Your location isn't available right now.";
+  }
+}
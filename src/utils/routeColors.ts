@@ -0,0 +1,50 @@
+// Colours shared by the map layers and sidebar charts
+
+import type { RiskLevel } from './routeRisk';
+
+export const SHORTEST_ROUTE_COLOR = '#3B82F6'; // Blue
+export const SAFE_ROUTE_COLOR = '#10B981'; // Green
+
+// HSL equivalents of the two route colours, for blending between them
+const SHORTEST_HSL = [217, 91, 60];
+const SAFE_HSL = [160, 84, 39];
+
+/**
+ * Colour for the route at `index` of `count` sweep routes (ordered shortest first),
+ * blending from the shortest-route blue to the safe-route green
+ */
+export function getSweepRouteColor(index: number, count: number): string {
+  const t = count > 1 ? index / (count - 1) : 0;
+  const [h, s, l] = SHORTEST_HSL.map((start, channel) =>
+    Math.round(start + (SAFE_HSL[channel] - start) * t)
+  );
+  return `hsl(${h}, ${s}%, ${l}%)`;
+}
+
+// Loops are alternatives rather than a scale, so they get distinct hues
+const LOOP_COLORS = ['#8B5CF6', '#EC4899', '#F59E0B', '#06B6D4'];
+
+export function getLoopRouteColor(index: number): string {
+  return LOOP_COLORS[index % LOOP_COLORS.length];
+}
+
+// Safe-reach areas, nearest (greenest) first
+export const REACH_COLORS: Record<number, string> = {
+  5: '#059669',
+  10: '#0D9488',
+  15: '#0284C7'
+};
+
+export function getReachColor(minutes: number): string {
+  return REACH_COLORS[minutes] ?? '#64748B';
+}
+
+// Route stretches by incident density
+export const RISK_COLORS: Record<RiskLevel, string> = {
+  low: '#22C55E',
+  moderate: '#F59E0B',
+  high: '#EF4444'
+};
+
+// A route the user imported, distinct from every generated route
+export const IMPORTED_ROUTE_COLOR = '#D946EF'; // Fuchsia
@@ -0,0 +1,195 @@
+// Route export
+// GPX, KML and GeoJSON files for loading routes onto watches and into other tools
+
+import RoutingService, { LngLat, RouteResponse, RouteStats } from '../services/routingService';
+import { SAFE_ROUTE_COLOR } from './routeColors';
+import { simplifyLine } from './geometry';
+
+export type ExportFormat = 'gpx' | 'kml' | 'geojson';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'gpx', label: 'GPX' },
+  { format: 'kml', label: 'KML' },
+  { format: 'geojson', label: 'GeoJSON' }
+];
+
+export interface RouteExport {
+  route: RouteResponse;
+  name: string; // e.g. "Safest route"
+  startName?: string;
+  destinationName?: string;
+  color?: string; // #RRGGBB line colour, where the format has one
+}
+
+export interface ExportFile {
+  filename: string;
+  mimeType: string;
+  content: string;
+}
+
+const CREATOR = 'Ventr';
+const EXPORT_TOLERANCE_M = 1;
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  gpx: 'application/gpx+xml',
+  kml: 'application/vnd.google-earth.kml+xml',
+  geojson: 'application/geo+json'
+};
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// "Ventr safest route 2026-10-19.gpx" → "ventr-safest-route-2026-10-19.gpx"
+function toFilename(name: string, format: ExportFormat): string {
+  const date = new Date().toISOString().slice(0, 10);
+  const slug = `${CREATOR} ${name} ${date}`.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+  return `${slug}.${format}`;
+}
+
+function describeEnds({ startName, destinationName }: RouteExport): string {
+  return `${startName ?? 'Start'} to ${destinationName ?? 'destination'}`;
+}
+
+// Stats in a fixed order with stable keys, shared by every format
+function getStatEntries(stats: RouteStats): [keyof RouteStats, number][] {
+  return [
+    ['total_distance_m', stats.total_distance_m],
+    ['total_time_s', stats.total_time_s],
+    ['crime_incidents_nearby', stats.crime_incidents_nearby],
+    ['safety_score', stats.safety_score],
+    ['detour_factor', stats.detour_factor]
+  ];
+}
+
+// Points that sit within a metre of the line add file size but no shape
+function getExportCoordinates(input: RouteExport): LngLat[] {
+  return simplifyLine(RoutingService.getRouteCoordinates(input.route.route_geojson), EXPORT_TOLERANCE_M);
+}
+
+function toGpx(input: RouteExport): string {
+  const coordinates = getExportCoordinates(input);
+  const [start, end] = [coordinates[0], coordinates[coordinates.length - 1]];
+  const waypoint = ([lng, lat]: number[], name: string) =>
+    `  <wpt lat="${lat}" lon="${lng}"><name>${escapeXml(name)}</name></wpt>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<gpx version="1.1" creator="${CREATOR}" xmlns="http://www.topografix.com/GPX/1/1" xmlns:ventr="urn:ventr:route">`,
+    '  <metadata>',
+    `    <name>${escapeXml(input.name)}</name>`,
+    `    <desc>${escapeXml(describeEnds(input))}</desc>`,
+    `    <time>${new Date().toISOString()}</time>`,
+    '    <extensions>',
+    ...getStatEntries(input.route.route_stats).map(([key, value]) => `      <ventr:${key}>${value}</ventr:${key}>`),
+    '    </extensions>',
+    '  </metadata>',
+    ...(start ? [waypoint(start, input.startName ?? 'Start')] : []),
+    ...(end ? [waypoint(end, input.destinationName ?? 'Destination')] : []),
+    '  <trk>',
+    `    <name>${escapeXml(input.name)}</name>`,
+    '    <type>walking</type>',
+    '    <trkseg>',
+    ...coordinates.map(([lng, lat]) => `      <trkpt lat="${lat}" lon="${lng}"></trkpt>`),
+    '    </trkseg>',
+    '  </trk>',
+    '</gpx>',
+    ''
+  ].join('\n');
+}
+
+// KML colours are aabbggrr
+function toKmlColor(hex: string): string {
+  return `ff${hex.slice(5, 7)}${hex.slice(3, 5)}${hex.slice(1, 3)}`.toLowerCase();
+}
+
+function toKml(input: RouteExport): string {
+  const coordinates = getExportCoordinates(input);
+  const [start, end] = [coordinates[0], coordinates[coordinates.length - 1]];
+  const point = ([lng, lat]: number[], name: string) =>
+    `    <Placemark><name>${escapeXml(name)}</name><Point><coordinates>${lng},${lat}</coordinates></Point></Placemark>`;
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<kml xmlns="http://www.opengis.net/kml/2.2">',
+    '  <Document>',
+    `    <name>${escapeXml(input.name)}</name>`,
+    `    <description>${escapeXml(describeEnds(input))}</description>`,
+    `    <Style id="route"><LineStyle><color>${toKmlColor(input.color ?? SAFE_ROUTE_COLOR)}</color><width>4</width></LineStyle></Style>`,
+    '    <Placemark>',
+    `      <name>${escapeXml(input.name)}</name>`,
+    '      <styleUrl>#route</styleUrl>',
+    '      <ExtendedData>',
+    ...getStatEntries(input.route.route_stats).map(
+      ([key, value]) => `        <Data name="${key}"><value>${value}</value></Data>`
+    ),
+    '      </ExtendedData>',
+    '      <LineString>',
+    '        <tessellate>1</tessellate>',
+    `        <coordinates>${coordinates.map(([lng, lat]) => `${lng},${lat}`).join(' ')}</coordinates>`,
+    '      </LineString>',
+    '    </Placemark>',
+    ...(start ? [point(start, input.startName ?? 'Start')] : []),
+    ...(end ? [point(end, input.destinationName ?? 'Destination')] : []),
+    '  </Document>',
+    '</kml>',
+    ''
+  ].join('\n');
+}
+
+function toGeoJson(input: RouteExport): string {
+  const coordinates = getExportCoordinates(input);
+  const [start, end] = [coordinates[0], coordinates[coordinates.length - 1]];
+  const point = (position: number[], role: 'start' | 'destination', name?: string): GeoJSON.Feature => ({
+    type: 'Feature',
+    geometry: { type: 'Point', coordinates: position },
+    properties: { role, name: name ?? null }
+  });
+
+  const collection: GeoJSON.FeatureCollection = {
+    type: 'FeatureCollection',
+    features: [
+      {
+        type: 'Feature',
+        geometry: { type: 'LineString', coordinates },
+        properties: {
+          name: input.name,
+          start: input.startName ?? null,
+          destination: input.destinationName ?? null,
+          ...input.route.route_stats
+        }
+      },
+      ...(start ? [point(start, 'start', input.startName)] : []),
+      ...(end ? [point(end, 'destination', input.destinationName)] : [])
+    ]
+  };
+  return JSON.stringify(collection, null, 2);
+}
+
+/**
+ * Build the file for a route in the chosen format
+ */
+export function exportRoute(format: ExportFormat, input: RouteExport): ExportFile {
+  const content = format === 'gpx' ? toGpx(input) : format === 'kml' ? toKml(input) : toGeoJson(input);
+  return { filename: toFilename(input.name, format), mimeType: MIME_TYPES[format], content };
+}
+
+/**
+ * Save a file through the browser's download prompt
+ */
+export function downloadFile({ filename, mimeType, content }: ExportFile): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  // Revoke after the click has been handled so the download isn't cut off
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
@@ -0,0 +1,123 @@
+// Route import
+// Reads a walked or planned track from a GPX or GeoJSON file
+
+import type { LngLat, RouteStats } from '../services/routingService';
+import { RouteValidationError, validateLngLat } from '../services/routeValidation';
+import { getDistanceKm } from './geometry';
+
+export interface ImportedRoute {
+  name: string;
+  coordinates: LngLat[];
+}
+
+// Both scored from the same sampled incidents; `safe` is null until the safe route
+// for the track's endpoints has been calculated
+export interface ImportedRouteComparison {
+  imported: RouteStats;
+  safe: RouteStats | null;
+}
+
+// Tracks bigger than this are almost certainly not a single walk
+const MAX_FILE_BYTES = 5 * 1024 * 1024;
+
+// Generated routes start and end on the street network, so a track's ends can be a little off
+const ENDPOINT_TOLERANCE_M = 150;
+
+export const IMPORT_FILE_ACCEPT = '.gpx,.geojson,.json,application/gpx+xml,application/geo+json,application/json';
+
+/** The file isn't a track we can read */
+export class RouteImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RouteImportError';
+  }
+}
+
+// Every position has to be a real place; a track with one bad point is likely corrupt throughout
+function toLngLat(position: unknown, index: number): LngLat {
+  try {
+    return validateLngLat(position, `Point ${index + 1} in this file`);
+  } catch (error) {
+    if (error instanceof RouteValidationError) throw new RouteImportError(`${error.message}.`);
+    throw error;
+  }
+}
+
+function parseGpx(text: string): { name?: string; coordinates: LngLat[] } {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new RouteImportError('This GPX file is not valid XML.');
+  }
+
+  // Prefer recorded track points, then planned route points
+  const points = Array.from(doc.getElementsByTagName('trkpt'));
+  const pointElements = points.length > 0 ? points : Array.from(doc.getElementsByTagName('rtept'));
+  const coordinates = pointElements.map((point, index) =>
+    toLngLat([Number(point.getAttribute('lon') ?? NaN), Number(point.getAttribute('lat') ?? NaN)], index)
+  );
+
+  const name = doc.querySelector('trk > name, rte > name, metadata > name')?.textContent?.trim();
+  return { name: name || undefined, coordinates };
+}
+
+function parseGeoJson(text: string): { name?: string; coordinates: LngLat[] } {
+  let data: GeoJSON.GeoJSON;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new RouteImportError('This GeoJSON file is not valid JSON.');
+  }
+
+  const features: GeoJSON.Feature[] =
+    data.type === 'FeatureCollection' ? data.features
+      : data.type === 'Feature' ? [data]
+        : [{ type: 'Feature', geometry: data as GeoJSON.Geometry, properties: {} }];
+
+  // Lines are joined in file order, which is how multi-part tracks are normally stored
+  const coordinates: LngLat[] = [];
+  let name: string | undefined;
+  features.forEach((feature) => {
+    const geometry = feature.geometry;
+    const lines = geometry?.type === 'LineString' ? [geometry.coordinates]
+      : geometry?.type === 'MultiLineString' ? geometry.coordinates
+        : [];
+    if (lines.length > 0 && !name && typeof feature.properties?.name === 'string') {
+      name = feature.properties.name;
+    }
+    lines.forEach((line) =>
+      line.forEach((position) => coordinates.push(toLngLat(position, coordinates.length)))
+    );
+  });
+
+  return { name, coordinates };
+}
+
+/**
+ * Read a track from a dropped or picked file. GPX is detected by extension or content;
+ * anything else is treated as GeoJSON.
+ */
+export async function readRouteFile(file: File): Promise<ImportedRoute> {
+  if (file.size > MAX_FILE_BYTES) {
+    throw new RouteImportError('This file is too large to be a single route.');
+  }
+
+  const text = await file.text();
+  const isGpx = /\.gpx$/i.test(file.name) || text.trimStart().startsWith('<');
+  const { name, coordinates } = isGpx ? parseGpx(text) : parseGeoJson(text);
+
+  if (coordinates.length < 2) {
+    throw new RouteImportError('No route line was found in this file.');
+  }
+
+  return { name: name ?? file.name.replace(/\.[^.]+$/, ''), coordinates };
+}
+
+/**
+ * Whether two lines start and end in about the same places
+ */
+export function sharesEndpoints(a: LngLat[], b: LngLat[]): boolean {
+  if (a.length === 0 || b.length === 0) return false;
+  const isNear = ([lngA, latA]: LngLat, [lngB, latB]: LngLat) =>
+    getDistanceKm(latA, lngA, latB, lngB) * 1000 <= ENDPOINT_TOLERANCE_M;
+  return isNear(a[0], b[0]) && isNear(a[a.length - 1], b[b.length - 1]);
+}
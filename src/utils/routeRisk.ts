@@ -0,0 +1,159 @@
+// Route risk
+// Splits a route line into short stretches and counts the incidents near each one
+
+import type { LngLat, RouteStats } from '../services/routingService';
+import { getDistanceKm } from './geometry';
+
+export type RiskLevel = 'low' | 'moderate' | 'high';
+
+export interface RiskSegment {
+  coordinates: LngLat[];
+  lengthM: number;
+  incidents: number; // Within `radiusM` of the stretch
+  density: number; // Incidents per 100 m
+  level: RiskLevel;
+}
+
+export interface RouteRiskOptions {
+  segmentLengthM: number;
+  radiusM: number;
+}
+
+export const DEFAULT_ROUTE_RISK_OPTIONS: RouteRiskOptions = {
+  segmentLengthM: 100,
+  radiusM: 50
+};
+
+// Upper bounds on incidents per 100 m for each level, lowest first
+export const RISK_LEVELS: { level: RiskLevel; label: string; maxDensity: number }[] = [
+  { level: 'low', label: 'Few incidents', maxDensity: 1 },
+  { level: 'moderate', label: 'Some incidents', maxDensity: 4 },
+  { level: 'high', label: 'Many incidents', maxDensity: Infinity }
+];
+
+const METRES_PER_DEGREE_LAT = 111320;
+
+// For timing lines we didn't route ourselves, in metres per second
+const WALKING_SPEED_MPS = 1.4;
+
+// Incidents per 100 m at which an estimated safety score bottoms out at zero
+const ZERO_SAFETY_DENSITY = 8;
+
+export function getRiskLevel(density: number): RiskLevel {
+  return RISK_LEVELS.find(({ maxDensity }) => density < maxDensity)?.level ?? 'high';
+}
+
+/**
+ * Cut a line into consecutive stretches of about `segmentLengthM`, splitting long edges
+ * so stretches are even. Each stretch starts where the previous one ended.
+ */
+export function splitLine(coordinates: LngLat[], segmentLengthM: number): { coordinates: LngLat[]; lengthM: number }[] {
+  const segments: { coordinates: LngLat[]; lengthM: number }[] = [];
+  if (coordinates.length < 2) return segments;
+
+  let current: LngLat[] = [coordinates[0]];
+  let currentLength = 0;
+
+  for (let i = 1; i < coordinates.length; i++) {
+    let [fromLng, fromLat] = coordinates[i - 1];
+    const [toLng, toLat] = coordinates[i];
+    let edgeLength = getDistanceKm(fromLat, fromLng, toLat, toLng) * 1000;
+
+    // Close off stretches part-way along edges that overshoot
+    while (currentLength + edgeLength >= segmentLengthM && edgeLength > 0) {
+      const t = (segmentLengthM - currentLength) / edgeLength;
+      const cut: LngLat = [fromLng + (toLng - fromLng) * t, fromLat + (toLat - fromLat) * t];
+      current.push(cut);
+      segments.push({ coordinates: current, lengthM: segmentLengthM });
+
+      edgeLength -= segmentLengthM - currentLength;
+      [fromLng, fromLat] = cut;
+      current = [cut];
+      currentLength = 0;
+    }
+
+    current.push(coordinates[i]);
+    currentLength += edgeLength;
+  }
+
+  // Fold a short tail into the previous stretch rather than colour a sliver
+  if (currentLength > 0) {
+    const last = segments[segments.length - 1];
+    if (last && currentLength < segmentLengthM / 4) {
+      last.coordinates.push(...current.slice(1));
+      last.lengthM += currentLength;
+    } else {
+      segments.push({ coordinates: current, lengthM: currentLength });
+    }
+  }
+
+  return segments;
+}
+
+/**
+ * Split a route into stretches and rate each by the incidents within `radiusM` of it
+ */
+export function scoreRouteSegments(
+  coordinates: LngLat[],
+  incidents: LngLat[],
+  options: RouteRiskOptions = DEFAULT_ROUTE_RISK_OPTIONS
+): RiskSegment[] {
+  if (coordinates.length < 2) return [];
+
+  // Flat projection around the route, fine at city scale
+  const metresPerDegreeLng = METRES_PER_DEGREE_LAT * Math.cos((coordinates[0][1] * Math.PI) / 180);
+  const project = ([lng, lat]: LngLat): [number, number] => [lng * metresPerDegreeLng, lat * METRES_PER_DEGREE_LAT];
+  const projectedIncidents = incidents.map(project);
+
+  return splitLine(coordinates, options.segmentLengthM).map(({ coordinates: stretch, lengthM }) => {
+    const points = stretch.map(project);
+    const xs = points.map(([x]) => x);
+    const ys = points.map(([, y]) => y);
+    const [minX, maxX] = [Math.min(...xs) - options.radiusM, Math.max(...xs) + options.radiusM];
+    const [minY, maxY] = [Math.min(...ys) - options.radiusM, Math.max(...ys) + options.radiusM];
+
+    const count = projectedIncidents.filter(([x, y]) => {
+      if (x < minX || x > maxX || y < minY || y > maxY) return false;
+      for (let i = 1; i < points.length; i++) {
+        if (getDistanceToEdge([x, y], points[i - 1], points[i]) <= options.radiusM) return true;
+      }
+      return false;
+    }).length;
+
+    const density = lengthM > 0 ? (count / lengthM) * 100 : 0;
+    return { coordinates: stretch, lengthM, incidents: count, density, level: getRiskLevel(density) };
+  });
+}
+
+/**
+ * RouteStats for a line we only have the geometry of, such as an imported track. The score
+ * comes from the sampled incidents rather than the routing API, so only compare it with
+ * routes estimated the same way.
+ */
+export function estimateRouteStats(
+  coordinates: LngLat[],
+  incidents: LngLat[],
+  baselineDistanceM?: number,
+  radiusM: number = DEFAULT_ROUTE_RISK_OPTIONS.radiusM
+): RouteStats {
+  // One stretch covering the whole line, so incidents near two stretches aren't counted twice
+  const [whole] = scoreRouteSegments(coordinates, incidents, { segmentLengthM: Infinity, radiusM });
+  const distance = whole?.lengthM ?? 0;
+
+  return {
+    total_distance_m: distance,
+    total_time_s: distance / WALKING_SPEED_MPS,
+    crime_incidents_nearby: whole?.incidents ?? 0,
+    safety_score: Math.max(0, 1 - (whole?.density ?? 0) / ZERO_SAFETY_DENSITY),
+    detour_factor: baselineDistanceM ? distance / baselineDistanceM : 1
+  };
+}
+
+// Distance from a point to the segment a-b, all in projected metres
+function getDistanceToEdge([px, py]: [number, number], [ax, ay]: [number, number], [bx, by]: [number, number]): number {
+  const dx = bx - ax;
+  const dy = by - ay;
+  const lengthSquared = dx * dx + dy * dy;
+  const t = lengthSquared > 0 ? Math.max(0, Math.min(1, ((px - ax) * dx + (py - ay) * dy) / lengthSquared)) : 0;
+  return Math.hypot(px - (ax + t * dx), py - (ay + t * dy));
+}
@@ -0,0 +1,129 @@
+// Trip URLs
+// Encodes a planned trip in the query string so it can be shared and reopened
+
+import {
+  LngLat,
+  RoutingPreferences,
+  CRIME_WEIGHT_RANGE,
+  MAX_DETOUR_FACTOR_RANGE
+} from '../services/routingService';
+import { validateLngLat } from '../services/routeValidation';
+import { decodePolyline, encodePolyline, simplifyLine } from './geometry';
+
+export interface SharedPoint {
+  lng: number;
+  lat: number;
+}
+
+export interface SharedTrip {
+  start: SharedPoint;
+  destination: SharedPoint;
+  waypoints: SharedPoint[];
+  preferences?: Partial<RoutingPreferences>;
+  departureTime?: Date;
+  sweepCrimeWeight?: number; // Crime weight of the selected trade-off route, if one was picked
+  routeLine?: LngLat[]; // An imported track to show alongside, sent as an encoded polyline
+}
+
+// ~1 m precision is plenty for a walking route
+const COORDINATE_DECIMALS = 5;
+// Keeps the whole link well under the ~8 KB some browsers, proxies and CDNs accept
+const MAX_ROUTE_LINE_CHARS = 2000;
+// Simplification tried in turn until the line fits; past the last it is left out
+const ROUTE_LINE_TOLERANCES_M = [5, 10, 20, 40, 80];
+
+function formatPoint({ lat, lng }: SharedPoint): string {
+  return `${lat.toFixed(COORDINATE_DECIMALS)},${lng.toFixed(COORDINATE_DECIMALS)}`;
+}
+
+function parsePoint(value: string | null): SharedPoint | null {
+  if (!value) return null;
+  const [lat, lng] = value.split(',').map(Number);
+  if (!Number.isFinite(lat) || !Number.isFinite(lng) || Math.abs(lat) > 90 || Math.abs(lng) > 180) return null;
+  return { lat, lng };
+}
+
+// The line only needs to read as the same streets, so coarser is better than missing
+function encodeRouteLine(line: LngLat[]): string | null {
+  for (const toleranceM of ROUTE_LINE_TOLERANCES_M) {
+    const encoded = encodePolyline(simplifyLine(line, toleranceM));
+    if (encoded.length <= MAX_ROUTE_LINE_CHARS) return encoded;
+  }
+  return null;
+}
+
+// The whole line is dropped if it doesn't decode or any point is off the globe
+function parseRouteLine(value: string | null): LngLat[] | undefined {
+  const line = value ? decodePolyline(value) : null;
+  if (!line || line.length < 2) return undefined;
+  try {
+    return line.map((position, index) => validateLngLat(position, `line[${index}]`));
+  } catch {
+    return undefined;
+  }
+}
+
+function parseNumber(value: string | null, min: number, max: number): number | undefined {
+  if (value === null) return undefined;
+  const number = Number(value);
+  return Number.isFinite(number) && number >= min && number <= max ? number : undefined;
+}
+
+/**
+ * Link that reopens the trip, on the given page URL (usually the current one)
+ */
+export function buildTripUrl(trip: SharedTrip, pageUrl: string): string {
+  const url = new URL(pageUrl);
+  url.search = '';
+  url.hash = '';
+
+  const params = url.searchParams;
+  params.set('from', formatPoint(trip.start));
+  params.set('to', formatPoint(trip.destination));
+  if (trip.waypoints.length > 0) params.set('via', trip.waypoints.map(formatPoint).join(';'));
+  if (trip.preferences?.crimeWeight !== undefined) params.set('cw', String(trip.preferences.crimeWeight));
+  if (trip.preferences?.maxDetourFactor !== undefined) params.set('detour', String(trip.preferences.maxDetourFactor));
+  if (trip.departureTime) params.set('depart', trip.departureTime.toISOString());
+  if (trip.sweepCrimeWeight !== undefined) params.set('sweep', String(trip.sweepCrimeWeight));
+  const routeLine = trip.routeLine && trip.routeLine.length >= 2 ? encodeRouteLine(trip.routeLine) : null;
+  if (routeLine) params.set('line', routeLine);
+
+  return url.toString();
+}
+
+/**
+ * Read a trip from a query string. Returns null unless both ends are present and valid;
+ * anything else that doesn't parse is dropped rather than failing the whole link.
+ */
+export function parseTripUrl(search: string): SharedTrip | null {
+  const params = new URLSearchParams(search);
+  const start = parsePoint(params.get('from'));
+  const destination = parsePoint(params.get('to'));
+  if (!start || !destination) return null;
+
+  const waypoints = (params.get('via') ?? '')
+    .split(';')
+    .map(parsePoint)
+    .filter((point): point is SharedPoint => point !== null);
+
+  const crimeWeight = parseNumber(params.get('cw'), CRIME_WEIGHT_RANGE.min, CRIME_WEIGHT_RANGE.max);
+  const maxDetourFactor = parseNumber(params.get('detour'), MAX_DETOUR_FACTOR_RANGE.min, MAX_DETOUR_FACTOR_RANGE.max);
+  const depart = params.get('depart');
+  const departureTime = depart ? new Date(depart) : undefined;
+  const routeLine = parseRouteLine(params.get('line'));
+
+  return {
+    start,
+    destination,
+    waypoints,
+    preferences: {
+      ...(crimeWeight !== undefined && { crimeWeight }),
+      ...(maxDetourFactor !== undefined && { maxDetourFactor })
+    },
+    ...(departureTime && !Number.isNaN(departureTime.getTime()) && { departureTime }),
+    ...(params.has('sweep') && {
+      sweepCrimeWeight: parseNumber(params.get('sweep'), CRIME_WEIGHT_RANGE.min, CRIME_WEIGHT_RANGE.max)
+    }),
+    ...(routeLine && { routeLine })
+  };
+}
@@ -4,22 +4,47 @@ addEventListener('fetch', (event) => {
   event.respondWith(handleRequest(event));
 });
 
+// Read a worker variable, falling back when it isn't bound in this environment
+function envVar(name, fallback) {
+  const value = globalThis[name];
+  return typeof value === 'string' && value !== '' ? value : fallback;
+}
+
+function jsonResponse(body) {
+  return new Response(JSON.stringify(body), {
+    headers: {
+      "Content-Type": "application/json",
+      "Access-Control-Allow-Origin": "*",
+      "Cache-Control": "no-store",
+    },
+  });
+}
+
 async function handleRequest(event) {
   const request = event.request;
   const url = new URL(request.url);
 
-  // API route for token
-  if (url.pathname === "/api/mapbox-token") {
-    const token = NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN || "not_set";
-    return new Response(
-      JSON.stringify({ token }),
-      {
-        headers: {
-          "Content-Type": "application/json",
-          "Access-Control-Allow-Origin": "*",
+  // Runtime app config, loaded by the app before it creates the map
+  if (url.pathname === "/api/config") {
+    return jsonResponse({
+      apiBaseUrl: envVar("VENTR_API_BASE_URL", "https://ventr-api.harman-singh.com"),
+      mapboxToken: envVar("NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN", ""),
+      tilesets: {
+        crime: {
+          url: envVar("VENTR_CRIME_TILESET_URL", "mapbox://harmansingh2003.9x73mbtr"),
+          sourceLayer: envVar("VENTR_CRIME_SOURCE_LAYER", "Assault_Open_Data_-3312730771-3b869h"),
         },
-      }
-    );
+      },
+      features: {
+        demoMode: envVar("VENTR_DEMO_MODE", "false") === "true",
+        routingProvider: envVar("VENTR_ROUTING_PROVIDER", "http"),
+      },
+    });
+  }
+
+  // API route for token (kept for older clients; new builds use /api/config)
+  if (url.pathname === "/api/mapbox-token") {
+    return jsonResponse({ token: envVar("NEXT_PUBLIC_MAPBOX_ACCESS_TOKEN", "not_set") });
   }
 
   // Serve static assets